@@ -0,0 +1,20 @@
+import { JSDOM } from 'jsdom';
+
+/**
+ * Browser globals the framework touches, so the specs can run in Node.
+ * Imported before the framework itself. The DOM comes from jsdom; fetch, streams and timers stay Node's
+ */
+const dom = new JSDOM('<!DOCTYPE html><html><head></head><body></body></html>', { url: 'http://localhost/', pretendToBeVisual: true });
+const globals = globalThis as unknown as Record<string, unknown>;
+const browser = dom.window as unknown as Record<string, unknown>;
+// jsdom elements only accept jsdom's own events and files
+const replaced = ['Event', 'CustomEvent', 'File', 'Blob', 'FormData'];
+
+Object.getOwnPropertyNames(browser).forEach((name) => {
+  if (name in globals && !replaced.includes(name)) return;
+  const value = browser[name];
+  globals[name] = typeof value === 'function' && !/^[A-Z]/.test(name) ? value.bind(dom.window) : value;
+});
+globals.window = globalThis;
+
+export {};
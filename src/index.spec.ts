@@ -0,0 +1,855 @@
+import './environment.spec';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  f$,
+  CrabJs,
+  CrabJsAjax,
+  CrabJsMockAdapter,
+  CrabJsHttpError,
+  CrabJsHttpStatusError,
+  CrabJsNetworkError,
+  CrabJsParseError,
+  CrabJsGraphQLError,
+  CrabJsSanitizer
+} from './index';
+
+const globals = globalThis as unknown as Record<string, unknown>;
+
+/**
+ * Creates a client sending every request through a fresh mock adapter
+ */
+function mockClient(defaults: Parameters<typeof CrabJsAjax.create>[0] = {}): { client: CrabJsAjax; adapter: CrabJsMockAdapter } {
+  const adapter = new CrabJsMockAdapter();
+  return { client: CrabJsAjax.create({ ...defaults, adapter }), adapter };
+}
+
+/**
+ * Waits for timers and pending callbacks to run
+ */
+function wait(ms = 0): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Starts an HTTP server on a free port
+ */
+async function serve(handler: (request: IncomingMessage, response: ServerResponse) => void): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
+
+/**
+ * Replaces the document body
+ */
+function render(html: string): void {
+  document.body.innerHTML = html;
+}
+
+describe('CrabJsAjax retry', () => {
+  it('retries idempotent requests after network errors', async () => {
+    const { client, adapter } = mockClient();
+    adapter.networkError('GET', '/items', 2).on('GET', '/items', { data: [1, 2] });
+
+    const response = await client.get('/items', { retry: { attempts: 3, delay: 0, jitter: false } });
+
+    assert.deepEqual(response.data, [1, 2]);
+    adapter.assertRequested('GET', '/items', 3);
+  });
+
+  it('retries retryable statuses until attempts run out', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('GET', '/busy', { status: 503 });
+
+    await assert.rejects(client.get('/busy', { retry: { attempts: 2, delay: 0 } }), CrabJsHttpStatusError);
+    adapter.assertRequested('GET', '/busy', 2);
+  });
+
+  it('does not retry non-idempotent methods by default', async () => {
+    const { client, adapter } = mockClient();
+    adapter.networkError('POST', '/items', 1).on('POST', '/items', { status: 201 });
+
+    await assert.rejects(client.post('/items', { name: 'crab' }, { retry: { attempts: 3, delay: 0 } }), CrabJsNetworkError);
+    adapter.assertRequested('POST', '/items', 1);
+  });
+});
+
+describe('CrabJsAjax cache', () => {
+  it('serves fresh responses from the cache', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('GET', '/settings', { data: { theme: 'dark' } });
+
+    const first = await client.get('/settings', { cache: { store: 'memory', key: 'settings-fresh' } });
+    const second = await client.get('/settings', { cache: { store: 'memory', key: 'settings-fresh' } });
+
+    assert.ok(!first.cached);
+    assert.equal(second.cached, true);
+    assert.deepEqual(second.data, { theme: 'dark' });
+    adapter.assertRequested('GET', '/settings', 1);
+  });
+
+  it('returns the response when the cache store fails to write', async t => {
+    const { client, adapter } = mockClient();
+    adapter.on('GET', '/settings', { data: { theme: 'light' } });
+    const warn = t.mock.method(console, 'warn', () => undefined);
+    const store = {
+      get: async () => undefined,
+      set: async () => {
+        throw new Error('Quota exceeded');
+      },
+      delete: async () => undefined,
+      keys: async () => [],
+      clear: async () => undefined
+    };
+
+    const response = await client.get('/settings', { cache: { store } });
+
+    assert.deepEqual(response.data, { theme: 'light' });
+    assert.equal(warn.mock.callCount(), 1);
+  });
+});
+
+describe('CrabJsAjax interceptors', () => {
+  it('lets request interceptors change the options', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('GET', '/me', { data: 'ok' });
+    client.interceptors.request.use(config => {
+      config.headers = { ...config.headers, 'X-Token': 'abc' };
+    });
+
+    await client.get('/me');
+
+    assert.equal(adapter.requests[0].headers['X-Token'], 'abc');
+  });
+
+  it('lets request interceptors answer without sending', async () => {
+    const { client, adapter } = mockClient();
+    client.interceptors.request.use(config => ({ data: 'local', status: 200, statusText: 'OK', headers: {}, config }));
+
+    const response = await client.get('/me');
+
+    assert.equal(response.data, 'local');
+    assert.equal(adapter.requests.length, 0);
+  });
+
+  it('lets response interceptors replace the response', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('GET', '/me', { data: { name: 'crab' } });
+    client.interceptors.response.use(response => ({ ...response, data: { wrapped: response.data } }));
+
+    const response = await client.get('/me');
+
+    assert.deepEqual(response.data, { wrapped: { name: 'crab' } });
+  });
+
+  it('lets error interceptors recover from failures', async () => {
+    const { client, adapter } = mockClient();
+    adapter.networkError('GET', '/me');
+    client.interceptors.error.use(error => ({ data: 'fallback', status: 200, statusText: 'OK', headers: {}, config: error.config }));
+
+    const response = await client.get('/me');
+
+    assert.equal(response.data, 'fallback');
+    adapter.assertRequested('GET', '/me', 1);
+  });
+});
+
+describe('CrabJsAjax dedupe and concurrency', () => {
+  it('shares one request between identical GETs in flight', async () => {
+    const { client, adapter } = mockClient();
+    adapter.setLatency(5).on('GET', '/profile', { data: { id: 7 } });
+
+    const [first, second] = await Promise.all([client.get('/profile'), client.get('/profile')]);
+
+    assert.deepEqual(first.data, { id: 7 });
+    assert.deepEqual(second.data, { id: 7 });
+    adapter.assertRequested('GET', '/profile', 1);
+  });
+
+  it('validates the shared response separately for each caller', async () => {
+    const { client, adapter } = mockClient();
+    adapter.setLatency(5).on('GET', '/missing', { status: 404 });
+
+    const strict = client.get('/missing');
+    const lenient = client.get('/missing', { validateStatus: () => true });
+
+    await assert.rejects(strict, (error: CrabJsHttpStatusError) => error.status === 404);
+    assert.equal((await lenient).status, 404);
+    adapter.assertRequested('GET', '/missing', 1);
+  });
+
+  it('sends separate requests when dedupe is off', async () => {
+    const { client, adapter } = mockClient();
+    adapter.setLatency(5).on('GET', '/profile', { data: { id: 7 } });
+
+    await Promise.all([client.get('/profile', { dedupe: false }), client.get('/profile', { dedupe: false })]);
+
+    adapter.assertRequested('GET', '/profile', 2);
+  });
+
+  it('does not share requests with different timeouts', async () => {
+    const { client, adapter } = mockClient();
+    adapter.setLatency(5).on('GET', '/profile', { data: { id: 7 } });
+
+    await Promise.all([client.get('/profile', { timeout: 1000 }), client.get('/profile', { timeout: 5000 })]);
+
+    adapter.assertRequested('GET', '/profile', 2);
+  });
+
+  it('frees the concurrency slot while a request waits to retry', async () => {
+    const { client, adapter } = mockClient({ concurrency: { limit: 1 } });
+    adapter.networkError('GET', '/flaky', 1).on('GET', '/flaky', { data: 'flaky' }).on('GET', '/other', { data: 'other' });
+
+    const flaky = client.get('/flaky', { dedupe: false, retry: { attempts: 2, delay: 20, jitter: false } });
+    await wait();
+    const other = client.get('/other', { dedupe: false });
+    await Promise.all([flaky, other]);
+
+    assert.deepEqual(adapter.requests.map(request => request.url), ['/flaky', '/other', '/flaky']);
+  });
+});
+
+describe('CrabJsEventStream', () => {
+  it('parses messages and resumes with Last-Event-ID after the stream drops', async () => {
+    const resumedFrom: Array<string | undefined> = [];
+    const server = await serve((request, response) => {
+      resumedFrom.push(request.headers['last-event-id'] as string | undefined);
+      if (resumedFrom.length === 1) {
+        response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        response.end('id: 7\nevent: update\ndata: {"count":1}\n\n');
+      } else {
+        // 204 ends the stream for good
+        response.writeHead(204);
+        response.end();
+      }
+    });
+    const updates: unknown[] = [];
+
+    const stream = CrabJs.stream(`${server.url}/events`, { reconnect: { delay: 0, jitter: false } });
+    stream.on('update', data => updates.push(data));
+    await new Promise(resolve => stream.on('close', resolve));
+    await server.close();
+
+    assert.deepEqual(updates, [{ count: 1 }]);
+    assert.deepEqual(resumedFrom, [undefined, '7']);
+  });
+
+  it('does not reconnect when an error handler closes the stream', async () => {
+    let connections = 0;
+    const server = await serve((request, response) => {
+      connections++;
+      response.writeHead(500);
+      response.end();
+    });
+    let reconnects = 0;
+
+    const stream = CrabJs.stream(server.url, { reconnect: { delay: 0, jitter: false } });
+    stream.on('error', () => stream.close()).on('reconnect', () => reconnects++);
+    await new Promise(resolve => stream.on('close', resolve));
+    await wait(20);
+    await server.close();
+
+    assert.equal(connections, 1);
+    assert.equal(reconnects, 0);
+    assert.equal(stream.readyState, 'closed');
+  });
+});
+
+/**
+ * WebSocket stand-in whose connection the specs open, feed and drop
+ */
+class FakeWebSocket {
+  public static readonly OPEN = 1;
+  public static instances: FakeWebSocket[] = [];
+
+  public readyState = 0;
+  public sent: unknown[] = [];
+  public onopen: (() => void) | null = null;
+  public onmessage: ((event: { data: unknown }) => void) | null = null;
+  public onerror: ((event: unknown) => void) | null = null;
+  public onclose: ((event: { code: number; reason: string }) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  public send(data: unknown): void {
+    this.sent.push(data);
+  }
+
+  public close(): void {
+    this.readyState = 3;
+  }
+
+  public open(): void {
+    this.readyState = 1;
+    this.onopen && this.onopen();
+  }
+
+  public receive(data: unknown): void {
+    this.onmessage && this.onmessage({ data });
+  }
+
+  public drop(): void {
+    this.readyState = 3;
+    this.onclose && this.onclose({ code: 1006, reason: '' });
+  }
+}
+
+describe('CrabJsSocket', () => {
+  const nativeWebSocket = globals.WebSocket;
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    globals.WebSocket = FakeWebSocket;
+  });
+  afterEach(() => {
+    globals.WebSocket = nativeWebSocket;
+  });
+
+  it('queues messages until the socket opens and answers requests by id', async () => {
+    const socket = CrabJs.socket('/live', { heartbeat: false, reconnect: false });
+    socket.send({ type: 'hello' });
+    const reply = socket.request({ type: 'status' });
+    const [ws] = FakeWebSocket.instances;
+
+    ws.open();
+    ws.receive('{"id":"1","online":true}');
+
+    assert.equal(ws.url, 'ws://localhost/live');
+    assert.deepEqual(ws.sent, ['{"type":"hello"}', '{"type":"status","id":"1"}']);
+    assert.deepEqual(await reply, { id: '1', online: true });
+    socket.close();
+  });
+
+  it('rejects pending requests when the connection drops', async () => {
+    const socket = CrabJs.socket('/live', { heartbeat: false, reconnect: { delay: 0, jitter: false } });
+    const [ws] = FakeWebSocket.instances;
+    ws.open();
+    const reply = socket.request({ type: 'status' });
+
+    ws.drop();
+
+    await assert.rejects(reply, CrabJsNetworkError);
+    socket.close();
+  });
+
+  it('does not reconnect when a disconnect handler closes the socket', async () => {
+    const socket = CrabJs.socket('/live', { heartbeat: false, reconnect: { delay: 0, jitter: false } });
+    let reconnects = 0;
+    socket.on('disconnect', () => socket.close()).on('reconnect', () => reconnects++);
+
+    FakeWebSocket.instances[0].open();
+    FakeWebSocket.instances[0].drop();
+    await wait(10);
+
+    assert.equal(FakeWebSocket.instances.length, 1);
+    assert.equal(reconnects, 0);
+    assert.equal(socket.readyState, 'closed');
+  });
+});
+
+describe('CrabJsAjax offline queue', () => {
+  afterEach(async () => {
+    await CrabJs.offline.clear();
+    CrabJs.offline.options = {};
+  });
+
+  it('queues mutations that fail with a network error and replays them with the same idempotency key', async () => {
+    const { client, adapter } = mockClient();
+    CrabJs.offline.options = { store: 'memory', client };
+    adapter.networkError('POST', '/orders', 1).on('POST', '/orders', { status: 201, data: { id: 1 } });
+
+    await assert.rejects(client.post('/orders', { item: 'crab' }, { offline: true }), (error: CrabJsHttpError) => error.queued);
+    assert.equal((await CrabJs.offline.entries()).length, 1);
+    await CrabJs.offline.replay();
+
+    const [sent, replayed] = adapter.requests;
+    assert.equal((await CrabJs.offline.entries()).length, 0);
+    assert.ok(sent.headers['Idempotency-Key']);
+    assert.equal(replayed.headers['Idempotency-Key'], sent.headers['Idempotency-Key']);
+  });
+
+  it('drops replayed requests the server rejects', async () => {
+    const { client, adapter } = mockClient();
+    CrabJs.offline.options = { store: 'memory', client };
+    adapter.networkError('POST', '/orders', 1).on('POST', '/orders', { status: 422 });
+    const failures: unknown[] = [];
+    const onFailure = (failure: unknown) => failures.push(failure);
+    CrabJs.offline.on('failure', onFailure);
+
+    await assert.rejects(client.post('/orders', { item: 'crab' }, { offline: true }));
+    await CrabJs.offline.replay();
+    CrabJs.offline.off('failure', onFailure);
+
+    assert.equal(failures.length, 1);
+    assert.equal((await CrabJs.offline.entries()).length, 0);
+  });
+});
+
+describe('CrabJsAjax streaming', () => {
+  it('parses NDJSON records split across chunks', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('GET', '/feed', { chunks: ['{"n":1}\n{"n"', ':2}\n', '{"n":3}'] });
+
+    const response = await client.get<AsyncIterable<unknown>>('/feed', { stream: 'ndjson' });
+    const records: unknown[] = [];
+    for await (const record of response.data) {
+      records.push(record);
+    }
+
+    assert.deepEqual(records, [{ n: 1 }, { n: 2 }, { n: 3 }]);
+  });
+
+  it('delivers the records before an invalid one, then fails with a parse error', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('GET', '/feed', { chunks: ['{"n":1}\n', 'oops\n', '{"n":2}\n'] });
+
+    const response = await client.get<AsyncIterator<unknown>>('/feed', { stream: 'ndjson' });
+
+    assert.deepEqual(await response.data.next(), { done: false, value: { n: 1 } });
+    await assert.rejects(response.data.next(), CrabJsParseError);
+  });
+});
+
+describe('CrabJsGraphQLClient', () => {
+  it('posts the operation and resolves with its data', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('POST', '/graphql', { data: { data: { user: { __typename: 'User', id: '1', name: 'Ann' } } } });
+
+    const result = await CrabJs.graphql('/graphql', { client })
+      .query('query User($id: ID!) { user(id: $id) { id name } }', { id: '1' });
+
+    const body = JSON.parse(adapter.requests[0].body as string);
+    assert.deepEqual(result.data, { user: { __typename: 'User', id: '1', name: 'Ann' } });
+    assert.equal(body.operationName, 'User');
+    assert.deepEqual(body.variables, { id: '1' });
+  });
+
+  it('rejects with the GraphQL errors by default', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('POST', '/graphql', { data: { data: null, errors: [{ message: 'Not found' }] } });
+
+    await assert.rejects(CrabJs.graphql('/graphql', { client }).query('{ user { id } }'), CrabJsGraphQLError);
+  });
+
+  it('answers repeated queries from the normalized cache', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('POST', '/graphql', { data: { data: { user: { __typename: 'User', id: '1', name: 'Ann' } } } });
+    const graphql = CrabJs.graphql('/graphql', { client, cache: true });
+
+    await graphql.query('{ user { id name } }');
+    const second = await graphql.query('{ user { id name } }');
+
+    assert.equal(second.cached, true);
+    assert.deepEqual(second.data, { user: { __typename: 'User', id: '1', name: 'Ann' } });
+    adapter.assertRequested('POST', '/graphql', 1);
+  });
+});
+
+describe('CrabJsAuth', () => {
+  it('sends the access token with same-origin requests', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('GET', '/me', { data: 'ok' });
+    const auth = CrabJs.auth({ client });
+    auth.setTokens({ accessToken: 'first' });
+
+    await client.get('/me');
+    auth.detach();
+
+    assert.equal(adapter.requests[0].headers.Authorization, 'Bearer first');
+  });
+
+  it('refreshes after a 401 and retries through the client that made the request', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('GET', '/me', { status: 401 }, 1).on('GET', '/me', { data: 'ok' });
+    client.interceptors.response.use(response => ({ ...response, data: { wrapped: response.data } }));
+    const auth = CrabJs.auth({ refresh: async () => ({ accessToken: 'second' }) });
+    auth.setTokens({ accessToken: 'first' });
+
+    try {
+      const response = await client.get('/me');
+
+      // The retry went through the client's own response interceptors
+      assert.deepEqual(response.data, { wrapped: 'ok' });
+      assert.equal(adapter.requests[1].headers.Authorization, 'Bearer second');
+    } finally {
+      auth.detach();
+    }
+  });
+
+  it('refreshes once for concurrent 401 responses', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('GET', /\/items\/\d/, { status: 401 }, 2).on('GET', /\/items\/\d/, { data: 'ok' });
+    let refreshes = 0;
+    const auth = CrabJs.auth({
+      client,
+      refresh: async () => {
+        refreshes++;
+        await wait(5);
+        return { accessToken: 'second' };
+      }
+    });
+    auth.setTokens({ accessToken: 'first' });
+
+    await Promise.all([client.get('/items/1'), client.get('/items/2')]);
+    auth.detach();
+
+    assert.equal(refreshes, 1);
+  });
+});
+
+describe('CrabJsElementCollection forms', () => {
+  it('nests bracketed names in serializeObject()', () => {
+    render(`<form id="profile">
+      <input name="user[name]" value="Ann">
+      <input name="user[tags][]" value="a"><input name="user[tags][]" value="b">
+      <input name="items[0][id]" value="1"><input name="items[1][id]" value="2">
+      <input name="plain" value="x"><input name="plain" value="y">
+      <input name="off" type="checkbox" value="1">
+    </form>`);
+
+    assert.deepEqual(f$('#profile').serializeObject(), {
+      user: { name: 'Ann', tags: ['a', 'b'] },
+      items: [{ id: '1' }, { id: '2' }],
+      plain: ['x', 'y']
+    });
+  });
+
+  it('skips names that would change prototypes', () => {
+    render(`<form id="profile">
+      <input name="__proto__[polluted]" value="1">
+      <input name="user[constructor][prototype][polluted]" value="1">
+      <input name="name" value="Ann">
+    </form>`);
+
+    assert.deepEqual(f$('#profile').serializeObject(), { name: 'Ann' });
+    assert.equal((({}) as Record<string, unknown>).polluted, undefined);
+  });
+
+  it('submits JSON built from the entries beforeSubmit saw, including the submit button', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('POST', '/profile', { status: 204 });
+    render(`<form id="profile" action="/profile" method="post">
+      <input name="user[name]" value="Ann">
+      <button name="intent" value="save">Save</button>
+    </form>`);
+    const form = document.getElementById('profile') as HTMLFormElement;
+    let submitted: Promise<unknown> | undefined;
+
+    f$('#profile').ajaxSubmit({
+      client,
+      encoding: 'json',
+      beforeSubmit: (_form, entries) => {
+        entries.push(['user[id]', '7']);
+      },
+      onSubmit: request => { submitted = request; }
+    });
+    form.requestSubmit(form.querySelector('button'));
+    await submitted;
+
+    assert.deepEqual(JSON.parse(adapter.requests[0].body as string), { user: { name: 'Ann', id: '7' }, intent: 'save' });
+  });
+
+  it('sends forms with files as multipart even in JSON mode', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('POST', '/avatar', { status: 204 });
+    render(`<form id="avatar" action="/avatar" method="post"><input type="file" name="image"></form>`);
+    const form = document.getElementById('avatar') as HTMLFormElement;
+    const image = new File(['png'], 'avatar.png', { type: 'image/png' });
+    Object.defineProperty(form.querySelector('input'), 'files', { value: [image] });
+    let submitted: Promise<unknown> | undefined;
+
+    f$('#avatar').ajaxSubmit({ client, encoding: 'json', onSubmit: request => { submitted = request; } });
+    form.requestSubmit();
+    await submitted;
+
+    const body = adapter.requests[0].body;
+    assert.ok(body instanceof FormData);
+    assert.equal((body.get('image') as File).name, 'avatar.png');
+  });
+});
+
+describe('CrabJsElementCollection load', () => {
+  it('replaces the content with the sanitized fragment', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('GET', '/fragment', { data: '<div id="part"><p onclick="steal()">Hi</p><script>steal()</script></div><p>Other</p>' });
+    render('<div id="target"></div>');
+
+    await f$('#target').load('/fragment', { client, selector: '#part' });
+
+    assert.equal((document.getElementById('target') as HTMLElement).innerHTML, '<div id="part"><p>Hi</p></div>');
+  });
+
+  it('resolves a load replaced by a newer one without changing the content', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('GET', '/slow', { data: 'slow', delay: 20 }).on('GET', '/fast', { data: 'fast' });
+    render('<div id="target"></div>');
+
+    const older = f$('#target').load('/slow', { client });
+    const newer = f$('#target').load('/fast', { client });
+    await Promise.all([older, newer]);
+    await wait(30);
+
+    assert.equal((document.getElementById('target') as HTMLElement).textContent, 'fast');
+  });
+
+  it('rejects when the caller aborts the load', async () => {
+    const { client, adapter } = mockClient();
+    adapter.on('GET', '/slow', { data: 'slow', delay: 20 });
+    render('<div id="target">Before</div>');
+    const controller = new AbortController();
+
+    const load = f$('#target').load('/slow', { client, signal: controller.signal, onError: () => undefined });
+    controller.abort();
+
+    await assert.rejects(load, (error: CrabJsHttpError) => error.code === 'abort');
+    assert.equal((document.getElementById('target') as HTMLElement).textContent, 'Before');
+  });
+});
+
+describe('CrabJsUploader', () => {
+  it('sends a file in chunks and continues from the confirmed offset after a failure', async () => {
+    const received: number[][] = [];
+    let confirmed = 0;
+    let failures = 1;
+    const protocol = {
+      open: async () => ({ token: 'upload-1', offset: confirmed }),
+      send: async (_session: unknown, chunk: Blob, offset: number) => {
+        if (offset === 4 && failures-- > 0) {
+          throw new CrabJsNetworkError({ url: '/uploads' }, 'Network error');
+        }
+        received.push([offset, chunk.size]);
+        confirmed = offset + chunk.size;
+        return confirmed;
+      },
+      finish: async () => ({ id: 'upload-1' })
+    };
+
+    const [file] = await CrabJs.upload(new File(['abcdefghij'], 'notes.txt'), {
+      endpoint: '/uploads',
+      protocol,
+      chunkSize: 4,
+      resume: false,
+      retry: { delay: 0, jitter: false }
+    }).start();
+
+    assert.equal(file.status, 'complete');
+    assert.equal(file.percent, 100);
+    assert.deepEqual(file.result, { id: 'upload-1' });
+    assert.deepEqual(received, [[0, 4], [4, 4], [8, 2]]);
+  });
+
+  it('creates a tus upload and appends chunks at the confirmed offset', async () => {
+    const { client, adapter } = mockClient();
+    adapter
+      .on('POST', '/uploads', { status: 201, headers: { location: '/uploads/1' } })
+      .on('PATCH', /\/uploads\/1$/, request => ({
+        status: 204,
+        headers: { 'upload-offset': String(Number(request.headers['Upload-Offset']) + (request.body as Blob).size) }
+      }));
+
+    const [file] = await CrabJs.upload(new File(['abcdef'], 'notes.txt'), { endpoint: '/uploads', client, chunkSize: 4, resume: false }).start();
+
+    assert.equal(file.status, 'complete');
+    assert.deepEqual(adapter.requestsTo('PATCH', /\/uploads\/1$/).map(request => request.headers['Upload-Offset']), ['0', '4']);
+  });
+});
+
+describe('CrabJsElementCollection styles and dimensions', () => {
+  it('measures elements inside hidden ancestors and restores their styles', () => {
+    render('<section id="panel" style="display: none"><div id="box"></div></section>');
+    const box = document.getElementById('box') as HTMLElement;
+    // jsdom has no layout, so the box reports a width only while none of its ancestors is hidden
+    Object.defineProperty(box, 'offsetWidth', {
+      get: () => {
+        for (let node: HTMLElement | null = box; node; node = node.parentElement) {
+          if (getComputedStyle(node).display === 'none') return 0;
+        }
+        return 120;
+      }
+    });
+
+    assert.equal(f$('#box').width(), 120);
+    assert.equal((document.getElementById('panel') as HTMLElement).getAttribute('style'), 'display: none;');
+  });
+
+  it('adds px to numbers except for unitless properties', () => {
+    render('<div id="box"></div>');
+
+    f$('#box').css({ width: 10, opacity: 0.5, marginTop: '1em' });
+
+    const style = (document.getElementById('box') as HTMLElement).style;
+    assert.equal(style.width, '10px');
+    assert.equal(style.opacity, '0.5');
+    assert.equal(style.marginTop, '1em');
+  });
+});
+
+describe('CrabJsElementCollection insertion', () => {
+  it('clones inserted nodes for every element but the last', () => {
+    render('<ul><li class="item"></li><li class="item"></li></ul>');
+    const badge = document.createElement('span');
+
+    f$('.item').append(badge);
+
+    const items = document.querySelectorAll('.item');
+    assert.equal(items[1].firstChild, badge);
+    assert.notEqual(items[0].firstChild, badge);
+    assert.equal((items[0].firstChild as Element).localName, 'span');
+  });
+
+  it('inserts HTML before, after and around elements', () => {
+    render('<p id="text">Hi</p>');
+
+    f$('#text').before('<hr>').after('<br>').wrap('<div class="wrapper"><section></section></div>');
+
+    assert.equal(document.body.innerHTML, '<hr><div class="wrapper"><section><p id="text">Hi</p></section></div><br>');
+    f$('#text').unwrap();
+    assert.equal(document.body.innerHTML, '<hr><div class="wrapper"><p id="text">Hi</p></div><br>');
+  });
+});
+
+describe('CrabJsSanitizer', () => {
+  it('keeps allowed tags and attributes and removes the rest', () => {
+    const html = '<p class="intro" style="color: red" onclick="steal()">Hi <blink>there</blink></p><script>steal()</script><iframe src="/x"></iframe>';
+
+    assert.equal(CrabJsSanitizer.default.sanitize(html), '<p class="intro">Hi there</p>');
+  });
+
+  it('removes javascript: and other unsafe URLs', () => {
+    const html = '<a href="javascript:steal()">a</a><a href=" JavaScript:steal()">b</a><a href="java&#9;script:steal()">c</a>'
+      + '<img src="data:text/html,x"><a href="/safe">d</a><a href="mailto:crab@example.com">e</a>';
+
+    assert.equal(CrabJsSanitizer.default.sanitize(html), '<a>a</a><a>b</a><a>c</a><img><a href="/safe">d</a><a href="mailto:crab@example.com">e</a>');
+  });
+
+  it('applies custom allowlists', () => {
+    const sanitizer = new CrabJsSanitizer({ allowedTags: ['b', 'a'], allowedAttributes: { a: ['href'] }, allowedSchemes: ['https'] });
+
+    assert.equal(sanitizer.sanitize('<b title="x">bold</b><i>italic</i><a href="http://example.com">link</a>'), '<b>bold</b>italic<a>link</a>');
+  });
+});
+
+describe('CrabJsSanitizer with Trusted Types', () => {
+  // Runs before anything calls unsafeHtml(), which creates the unsafe policy on first use
+  it('creates the unsafe policy for unsafeHtml() and keeps setting HTML when it cannot be created', t => {
+    const warn = t.mock.method(console, 'warn', () => undefined);
+    const created: string[] = [];
+    globals.trustedTypes = {
+      createPolicy: (name: string) => {
+        created.push(name);
+        throw new Error(`Policy ${name} is not allowed`);
+      }
+    };
+    render('<div id="target"></div>');
+
+    try {
+      f$('#target').unsafeHtml('<em>trusted</em>');
+    } finally {
+      delete globals.trustedTypes;
+    }
+
+    assert.deepEqual(created, ['crabjs-unsafe']);
+    assert.equal(warn.mock.callCount(), 1);
+    assert.equal((document.getElementById('target') as HTMLElement).innerHTML, '<em>trusted</em>');
+  });
+
+  it('sanitizes html() but not unsafeHtml()', () => {
+    render('<div id="safe"></div><div id="unsafe"></div>');
+
+    f$('#safe').html('<b onclick="steal()">Hi</b>');
+    f$('#unsafe').unsafeHtml('<b onclick="trusted()">Hi</b>');
+
+    assert.equal((document.getElementById('safe') as HTMLElement).innerHTML, '<b>Hi</b>');
+    assert.equal((document.getElementById('unsafe') as HTMLElement).innerHTML, '<b onclick="trusted()">Hi</b>');
+  });
+});
+
+describe('CrabJsElementCollection events', () => {
+  it('removes the listeners of a namespace', () => {
+    render('<button id="save"></button>');
+    const calls: string[] = [];
+    f$('#save')
+      .on('click.menu', () => calls.push('menu'))
+      .on('click.toolbar', () => calls.push('toolbar'))
+      .on('focus.menu', () => calls.push('focus'));
+
+    f$('#save').off('.menu');
+    const button = document.getElementById('save') as HTMLElement;
+    button.click();
+    button.dispatchEvent(new Event('focus'));
+
+    assert.deepEqual(calls, ['toolbar']);
+  });
+
+  it('removes a listener by its callback, including delegated ones', () => {
+    render('<ul id="list"><li>One</li></ul>');
+    let calls = 0;
+    const listener = () => { calls++; };
+    f$('#list').on('click', listener).delegate('click', 'li', listener);
+
+    f$('#list').off(listener);
+    (document.querySelector('li') as HTMLElement).click();
+
+    assert.equal(calls, 0);
+  });
+
+  it('removes listeners with several namespaces by any of them', () => {
+    render('<button id="save"></button>');
+    let calls = 0;
+    f$('#save').on('click.menu.editor', () => { calls++; });
+
+    f$('#save').off('click.editor');
+    (document.getElementById('save') as HTMLElement).click();
+
+    assert.equal(calls, 0);
+  });
+});
+
+describe('CrabJsElementCollection trigger', () => {
+  it('passes the payload as event.detail and reports preventDefault()', () => {
+    render('<form id="editor"></form>');
+    let detail: unknown;
+    f$('#editor').on('save', event => {
+      detail = (event as CustomEvent).detail;
+      event.preventDefault();
+    });
+
+    const cancelled = f$('#editor').trigger('save', { id: 7 }, { cancelable: true });
+
+    assert.deepEqual(detail, { id: 7 });
+    assert.equal(cancelled, true);
+  });
+
+  it('dispatches known DOM events as their native class', () => {
+    render('<button id="save"></button>');
+    let received: Event | undefined;
+    f$('#save').on('click', event => { received = event; });
+
+    f$('#save').trigger('click', { clientX: 5 });
+
+    assert.ok(received instanceof MouseEvent);
+    assert.equal((received as MouseEvent).clientX, 5);
+  });
+
+  it('runs only the listeners in the triggered namespaces', () => {
+    render('<form id="editor"></form>');
+    const calls: string[] = [];
+    f$('#editor').on('save.editor', () => calls.push('editor')).on('save.autosave', () => calls.push('autosave'));
+
+    f$('#editor').trigger('save.editor');
+    f$('#editor').triggerHandler('save.autosave');
+
+    assert.deepEqual(calls, ['editor', 'autosave']);
+  });
+});
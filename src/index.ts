@@ -83,682 +83,7005 @@ interface CrabJsAnimation {
 interface Options {
   /** HTTP method (e.g., 'GET', 'POST') */
   method?: string;
-  /** The URL to send the request to */
+  /** The URL to send the request to. Relative URLs are resolved against baseURL */
   url: string;
+  /** Base URL prepended to relative request URLs */
+  baseURL?: string;
   /** Data to send with the request */
   data?: any;
   /** Custom headers to include in the request */
   headers?: Record<string, string>;
-  /** Query parameters to append to the URL */
-  params?: Record<string, string>;
+  /** Query parameters to append to the URL. Arrays and nested objects are supported; null and undefined values are skipped */
+  params?: Record<string, unknown>;
+  /** How arrays in params and form-encoded data are written (default: 'repeat') */
+  arrayFormat?: CrabJsArrayFormat;
   /** Timeout for the request in milliseconds */
   timeout?: number;
-  /** Expected response type (e.g., 'json', 'text') */
+  /** Expected response type (e.g., 'json', 'text'). 'arraybuffer' and 'blob' bodies are returned unparsed */
   responseType?: XMLHttpRequestResponseType;
-  /** Content type of the request */
+  /** Content type of the request. Inferred from the data when omitted; never set for FormData */
   contentType?: string;
+  /** Signal used to cancel the request */
+  signal?: AbortSignal;
+  /** Retry policy for failed attempts: a maximum number of attempts, true for the defaults, or detailed options */
+  retry?: number | boolean | CrabJsRetryOptions;
+  /** Response caching for GET requests: true for the defaults, or detailed options */
+  cache?: boolean | CrabJsCacheOptions;
+  /** Whether an identical in-flight GET or HEAD request may be shared (default: true) */
+  dedupe?: boolean;
+  /** Position in the concurrency queue relative to other waiting requests (default: 'normal') */
+  priority?: CrabJsRequestPriority;
+  /** Decides which statuses count as success (default: 2xx) */
+  validateStatus?: (status: number) => boolean;
+  /** Transport used to send the request (default: the instance's adapter, then CrabJsAjax.defaultAdapter) */
+  adapter?: CrabJsAjaxAdapter;
+  /** Called as the request body is uploaded (not supported by the fetch adapter) */
+  onUploadProgress?: (progress: CrabJsProgress) => void;
+  /** Called as the response body is downloaded */
+  onDownloadProgress?: (progress: CrabJsProgress) => void;
+  /** Minimum time between progress callbacks in milliseconds; the final update is always delivered (default: 100) */
+  progressInterval?: number;
+  /** Reads the response body as it arrives: the response resolves once headers are received and its data is a CrabJsResponseStream. Streams are never cached or shared */
+  stream?: CrabJsStreamFormat;
+  /** Called with every record of a streamed response. Reading pauses until a returned promise settles, and the request resolves once the stream ends */
+  onChunk?: (record: unknown) => void | Promise<void>;
+  /** Whether a mutating request is saved to CrabJsAjax.offline and replayed later when it can't reach the server */
+  offline?: boolean;
+  /** Key identifying the request to the server and the offline queue (default: generated for offline requests) */
+  idempotencyKey?: string;
+  /** Whether an installed CrabJsAuth attaches tokens and CSRF headers and refreshes tokens on 401 (default: true) */
+  auth?: boolean;
   /** Callback function for successful response */
   success?: (response: any) => void;
-  /** Callback function for error response */
-  error?: (status: number, statusText: string, error?: Error) => void;
+  /** Callback function for error response. The third argument describes the failure in detail */
+  error?: (status: number, statusText: string, error?: CrabJsHttpError) => void;
+}
+
+/**
+ * Formats of streamed response bodies: newline-delimited JSON, JSON text sequences (RFC 7464) or raw text chunks
+ */
+type CrabJsStreamFormat = 'ndjson' | 'json-seq' | 'text';
+
+/**
+ * Array formats for query strings and form-encoded data:
+ * 'repeat' (a=1&a=2), 'brackets' (a[]=1&a[]=2), 'indices' (a[0]=1&a[1]=2) or 'comma' (a=1,2)
+ */
+type CrabJsArrayFormat = 'repeat' | 'brackets' | 'indices' | 'comma';
+
+/**
+ * Interface for AJAX retry options
+ */
+interface CrabJsRetryOptions {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  attempts?: number;
+  /** Delay before the first retry in milliseconds (default: 300) */
+  delay?: number;
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  factor?: number;
+  /** Upper bound for a single delay in milliseconds (default: 30000) */
+  maxDelay?: number;
+  /** Whether to randomise delays so clients don't retry in lockstep (default: true) */
+  jitter?: boolean;
+  /** Whether to wait as long as a Retry-After header asks, up to maxDelay (default: true) */
+  respectRetryAfter?: boolean;
+  /** Methods that may be retried (default: the idempotent methods) */
+  methods?: string[];
+  /** Response statuses that may be retried (default: 408, 429, 500, 502, 503, 504) */
+  statuses?: number[];
+  /** Decides whether a failed attempt is retried, replacing the methods and statuses checks */
+  shouldRetry?: (error: CrabJsHttpError, attempt: number) => boolean;
+  /** Called before every attempt, starting at 1 */
+  onAttempt?: (attempt: number, config: Options) => void;
+  /** Called after a failed attempt that is going to be retried */
+  onRetry?: (error: CrabJsHttpError, attempt: number, delay: number) => void;
+}
+
+/**
+ * Retry options with every default filled in
+ */
+type CrabJsResolvedRetryOptions = CrabJsRetryOptions & Required<Pick<CrabJsRetryOptions,
+  'attempts' | 'delay' | 'factor' | 'maxDelay' | 'jitter' | 'respectRetryAfter' | 'methods' | 'statuses'>>;
+
+/**
+ * Interface for an upload or download progress update
+ */
+interface CrabJsProgress {
+  /** Bytes transferred so far */
+  loaded: number;
+  /** Total bytes, when known */
+  total?: number;
+  /** Percentage transferred (0-100), when the total is known */
+  percent?: number;
+  /** Average transfer rate in bytes per second */
+  rate: number;
+  /** Estimated time remaining in seconds, when the total is known */
+  estimated?: number;
+  /** Whether the transfer has finished */
+  done: boolean;
+}
+
+/**
+ * Interface for the defaults of a CrabJsAjax instance
+ */
+interface CrabJsAjaxDefaults extends Partial<Omit<Options, 'url' | 'data' | 'signal' | 'idempotencyKey' | 'stream' | 'onChunk' | 'success' | 'error'>> {
+  /** Whether the global CrabJsAjax.interceptors also run for this instance (default: true) */
+  useGlobalInterceptors?: boolean;
+  /** Limits how many requests of this instance run at once; extra requests wait in a queue */
+  concurrency?: {
+    /** Maximum number of requests running at once */
+    limit: number;
+    /** Whether the limit applies to each host separately (default: false) */
+    perHost?: boolean;
+  };
+}
+
+/**
+ * Interface for CrabJs.ajax: a request function that can also create independent clients
+ */
+interface CrabJsAjaxFunction {
+  /** Performs an AJAX request using the default client */
+  <T = unknown>(options: Options): Promise<CrabJsResponse<T>>;
+  /** Creates a client with its own defaults, interceptors and adapter */
+  create(defaults?: CrabJsAjaxDefaults): CrabJsAjax;
+}
+
+/**
+ * Priority of a request waiting in a concurrency queue
+ */
+type CrabJsRequestPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Interface for a request tracked by a concurrency queue
+ */
+interface CrabJsQueuedRequest {
+  /** Upper-cased HTTP method */
+  method: string;
+  /** The full request URL */
+  url: string;
+  /** The host the queue limits, or '*' for a client-wide queue */
+  host: string;
+  /** The priority of the request */
+  priority: CrabJsRequestPriority;
+  /** When the request entered the queue, in milliseconds since the epoch */
+  queuedAt: number;
+  /** When the request started running, in milliseconds since the epoch */
+  startedAt?: number;
+}
+
+/**
+ * Interface for a request shared by identical callers while in flight
+ */
+interface CrabJsInFlightRequest {
+  /** Cancels the shared request */
+  controller: AbortController;
+  /** The shared request, resolving with the response as the adapter returned it */
+  promise: Promise<CrabJsAdapterResponse>;
+  /** Number of callers still waiting for it */
+  callers: number;
+}
+
+/**
+ * Options accepted by the request shorthands (get, post, ...)
+ */
+type CrabJsRequestOptions = Omit<Options, 'url' | 'method' | 'data'>;
+
+/**
+ * Interface for a completed AJAX response
+ */
+interface CrabJsResponse<T = unknown> {
+  /** The parsed response body */
+  data: T;
+  /** HTTP status code */
+  status: number;
+  /** HTTP status text */
+  statusText: string;
+  /** Response headers keyed by lower-cased header name */
+  headers: Record<string, string>;
+  /** The options the request was sent with */
+  config: Options;
+  /** Whether the response was served from the response cache */
+  cached?: boolean;
+}
+
+/**
+ * What went wrong with a request:
+ * - 'network': no response was received
+ * - 'timeout': the request took longer than its timeout
+ * - 'abort': the request was cancelled
+ * - 'parse': the response body could not be parsed
+ * - 'http': the server answered with an error status
+ * - 'config': the request could not be built from its options
+ * - 'graphql': a GraphQL server reported errors for the operation
+ */
+type CrabJsHttpErrorCode = 'network' | 'timeout' | 'abort' | 'parse' | 'http' | 'config' | 'graphql';
+
+/**
+ * Interface for the optional details of a CrabJsHttpError
+ */
+interface CrabJsHttpErrorDetails {
+  /** HTTP status code (default: the response status, or 0) */
+  status?: number;
+  /** HTTP status text (default: the response status text, or the message) */
+  statusText?: string;
+  /** The response, when one was received */
+  response?: CrabJsResponse;
+  /** The underlying error, if any */
+  cause?: Error;
+}
+
+/**
+ * Base class of the errors AJAX request promises reject with and error callbacks receive
+ */
+class CrabJsHttpError extends Error {
+  /** What went wrong */
+  public code: CrabJsHttpErrorCode;
+  /** HTTP status code, or 0 when no response was received */
+  public status: number;
+  /** HTTP status text, or a description of the failure */
+  public statusText: string;
+  /** The options the request was sent with */
+  public config: Options;
+  /** The response, when one was received */
+  public response?: CrabJsResponse;
+  /** The underlying error, if any */
+  public cause?: Error;
+  /** Whether the request was saved to the offline queue to be replayed later */
+  public queued = false;
+
+  constructor(code: CrabJsHttpErrorCode, message: string, config: Options, details: CrabJsHttpErrorDetails = {}) {
+    super(message);
+    this.name = 'CrabJsHttpError';
+    this.code = code;
+    this.config = config;
+    this.response = details.response;
+    this.status = details.status !== undefined ? details.status : details.response ? details.response.status : 0;
+    this.statusText = details.statusText || (details.response ? details.response.statusText : message);
+    this.cause = details.cause;
+  }
+
+  /**
+   * The response body, when a response was received
+   */
+  public get data(): unknown {
+    return this.response ? this.response.data : undefined;
+  }
+
+  /**
+   * The response headers, or an empty object when no response was received
+   */
+  public get headers(): Record<string, string> {
+    return this.response ? this.response.headers : {};
+  }
+}
+
+/**
+ * Error for requests that received no response
+ */
+class CrabJsNetworkError extends CrabJsHttpError {
+  constructor(config: Options, message = 'Network error', cause?: Error) {
+    super('network', message, config, { cause });
+    this.name = 'CrabJsNetworkError';
+  }
+}
+
+/**
+ * Error for requests that exceeded their timeout
+ */
+class CrabJsTimeoutError extends CrabJsHttpError {
+  constructor(config: Options, message = 'Request timed out') {
+    super('timeout', message, config);
+    this.name = 'CrabJsTimeoutError';
+  }
+}
+
+/**
+ * Error for requests cancelled through their signal
+ */
+class CrabJsAbortError extends CrabJsHttpError {
+  constructor(config: Options, message = 'Request aborted') {
+    super('abort', message, config);
+    this.name = 'CrabJsAbortError';
+  }
+}
+
+/**
+ * Error for responses whose body could not be parsed
+ */
+class CrabJsParseError extends CrabJsHttpError {
+  constructor(config: Options, response: CrabJsResponse, cause?: Error) {
+    super('parse', 'Error parsing response', config, { response, statusText: 'Error parsing response', cause });
+    this.name = 'CrabJsParseError';
+  }
+}
+
+/**
+ * Error for responses with an error status. Carries the response body and headers
+ */
+class CrabJsHttpStatusError extends CrabJsHttpError {
+  /** The response with the error status */
+  public response: CrabJsResponse;
+
+  constructor(config: Options, response: CrabJsResponse) {
+    super('http', `Request failed with status ${response.status}`, config, { response });
+    this.name = 'CrabJsHttpStatusError';
+    this.response = response;
+  }
+}
+
+/**
+ * Error for requests that could not be built from their options
+ */
+class CrabJsConfigError extends CrabJsHttpError {
+  constructor(config: Options, message: string, cause?: Error) {
+    super('config', message, config, { cause });
+    this.name = 'CrabJsConfigError';
+  }
+}
+
+/**
+ * Error for GraphQL operations the server answered with errors. Carries the errors and any partial data
+ */
+class CrabJsGraphQLError extends CrabJsHttpError {
+  /** The errors reported by the server */
+  public errors: CrabJsGraphQLErrorEntry[];
+  /** The data resolved despite the errors, if any */
+  public partialData: unknown;
+
+  constructor(config: Options, response: CrabJsResponse, errors: CrabJsGraphQLErrorEntry[], partialData?: unknown) {
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : '';
+    super('graphql', `${errors[0] ? errors[0].message : 'GraphQL error'}${more}`, config, { response });
+    this.name = 'CrabJsGraphQLError';
+    this.errors = errors;
+    this.partialData = partialData === undefined ? null : partialData;
+  }
+}
+
+/**
+ * Runs before a request is sent. Returns replacement options, a response to
+ * short-circuit the request with, or nothing to keep the (possibly mutated) options
+ */
+type CrabJsRequestInterceptor = (config: Options) => Options | CrabJsResponse | void | Promise<Options | CrabJsResponse | void>;
+
+/**
+ * Runs after a response is received. Returns a replacement response or nothing to keep it
+ */
+type CrabJsResponseInterceptor = (response: CrabJsResponse) => CrabJsResponse | void | Promise<CrabJsResponse | void>;
+
+/**
+ * Runs when a request fails. Returns a response to recover with, nothing to pass
+ * the error on, or throws to replace the error. Receives the client that made the
+ * request, so a retry can go through the same instance
+ */
+type CrabJsErrorInterceptor = (error: CrabJsHttpError, client: CrabJsAjax) => CrabJsResponse | void | Promise<CrabJsResponse | void>;
+
+/**
+ * Class to register and remove interceptors of one kind
+ */
+class CrabJsInterceptorManager<T> {
+  private handlers = new Map<number, T>();
+  private nextId = 0;
+
+  /**
+   * Registers an interceptor
+   * @param handler - The interceptor to register
+   * @returns An id that can be passed to eject
+   */
+  public use(handler: T): number {
+    const id = this.nextId++;
+    this.handlers.set(id, handler);
+    return id;
+  }
+
+  /**
+   * Removes a previously registered interceptor
+   * @param id - The id returned by use
+   */
+  public eject(id: number): void {
+    this.handlers.delete(id);
+  }
+
+  /**
+   * Removes all registered interceptors
+   */
+  public clear(): void {
+    this.handlers.clear();
+  }
+
+  /**
+   * Gets the registered interceptors in registration order
+   * @returns The registered interceptors
+   */
+  public toArray(): T[] {
+    return Array.from(this.handlers.values());
+  }
+}
+
+/**
+ * Interface for the interceptor managers of a CrabJsAjax instance
+ */
+interface CrabJsInterceptors {
+  /** Interceptors run before the request is sent */
+  request: CrabJsInterceptorManager<CrabJsRequestInterceptor>;
+  /** Interceptors run after a successful response */
+  response: CrabJsInterceptorManager<CrabJsResponseInterceptor>;
+  /** Interceptors run when the request fails */
+  error: CrabJsInterceptorManager<CrabJsErrorInterceptor>;
+}
+
+/**
+ * Interface for AJAX response cache options
+ */
+interface CrabJsCacheOptions {
+  /** How long a response is fresh, in milliseconds (default: 60000) */
+  ttl?: number;
+  /** How long after expiry a stale response may still be served while it is revalidated in the background, in milliseconds (default: 0) */
+  staleWhileRevalidate?: number;
+  /** Where responses are kept (default: 'memory') */
+  store?: 'memory' | 'localStorage' | 'indexedDB' | CrabJsCacheStore;
+  /** Cache key to use instead of the request URL */
+  key?: string;
+  /** Whether to revalidate expired responses with ETag/Last-Modified instead of refetching them (default: true) */
+  revalidate?: boolean;
+}
+
+/**
+ * Interface for a cached response
+ */
+interface CrabJsCacheEntry {
+  /** The request URL, including query parameters */
+  url: string;
+  /** The parsed response body */
+  data: unknown;
+  /** HTTP status code */
+  status: number;
+  /** HTTP status text */
+  statusText: string;
+  /** Response headers keyed by lower-cased header name */
+  headers: Record<string, string>;
+  /** When the response was stored or last revalidated, in milliseconds since the epoch */
+  storedAt: number;
+  /** When the response stops being fresh, in milliseconds since the epoch */
+  expiresAt: number;
+  /** The ETag header of the response */
+  etag?: string;
+  /** The Last-Modified header of the response */
+  lastModified?: string;
+}
+
+/**
+ * Interface for a response cache backend
+ */
+interface CrabJsCacheStore {
+  /** Gets the entry stored under a key */
+  get(key: string): Promise<CrabJsCacheEntry | undefined>;
+  /** Stores an entry under a key */
+  set(key: string, entry: CrabJsCacheEntry): Promise<void>;
+  /** Removes the entry stored under a key */
+  delete(key: string): Promise<void>;
+  /** Gets all stored keys */
+  keys(): Promise<string[]>;
+  /** Removes all entries */
+  clear(): Promise<void>;
+}
+
+/**
+ * Cache store keeping responses in memory for the lifetime of the page
+ */
+class CrabJsMemoryCacheStore implements CrabJsCacheStore {
+  private entries = new Map<string, CrabJsCacheEntry>();
+
+  public async get(key: string): Promise<CrabJsCacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  public async set(key: string, entry: CrabJsCacheEntry): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  public async keys(): Promise<string[]> {
+    return Array.from(this.entries.keys());
+  }
+
+  public async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache store keeping responses in localStorage. Entries must be JSON serializable
+ */
+class CrabJsLocalStorageCacheStore implements CrabJsCacheStore {
+  private prefix: string;
+
+  constructor(prefix = 'crabjs-cache:') {
+    this.prefix = prefix;
+  }
+
+  public async get(key: string): Promise<CrabJsCacheEntry | undefined> {
+    try {
+      const raw = localStorage.getItem(this.prefix + key);
+      return raw ? JSON.parse(raw) : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  public async set(key: string, entry: CrabJsCacheEntry): Promise<void> {
+    // Binary bodies don't survive JSON serialization
+    if (entry.data instanceof Blob || entry.data instanceof ArrayBuffer) return;
+    try {
+      localStorage.setItem(this.prefix + key, JSON.stringify(entry));
+    } catch (error) {
+      // Quota exceeded or storage disabled; the response is simply not cached
+      console.warn('Unable to cache response in localStorage:', error);
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    localStorage.removeItem(this.prefix + key);
+  }
+
+  public async keys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.indexOf(this.prefix) === 0) {
+        keys.push(key.slice(this.prefix.length));
+      }
+    }
+    return keys;
+  }
+
+  public async clear(): Promise<void> {
+    const keys = await this.keys();
+    keys.forEach(key => localStorage.removeItem(this.prefix + key));
+  }
+}
+
+/**
+ * Cache store keeping responses in IndexedDB
+ */
+class CrabJsIndexedDBCacheStore implements CrabJsCacheStore {
+  private dbName: string;
+  private storeName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName = 'crabjs-cache', storeName = 'responses') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  public async get(key: string): Promise<CrabJsCacheEntry | undefined> {
+    return this.run<CrabJsCacheEntry | undefined>('readonly', store => store.get(key));
+  }
+
+  public async set(key: string, entry: CrabJsCacheEntry): Promise<void> {
+    await this.run('readwrite', store => store.put(entry, key));
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+
+  public async keys(): Promise<string[]> {
+    const keys = await this.run<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    return keys.map(key => String(key));
+  }
+
+  public async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear());
+  }
+
+  /**
+   * Opens the database, creating the object store on first use
+   * @returns The open database
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Runs a single request against the object store
+   * @param mode - The transaction mode
+   * @param action - Creates the request to run
+   * @returns The result of the request
+   */
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Class to look up cache stores and invalidate cached responses
+ */
+class CrabJsHttpCache {
+  private stores: Record<string, CrabJsCacheStore> = {};
+  private customStores = new Set<CrabJsCacheStore>();
+
+  /**
+   * Gets the store for a cache store option, creating built-in stores on first use
+   * @param store - The store option
+   * @returns The cache store
+   */
+  public getStore(store: CrabJsCacheOptions['store'] = 'memory'): CrabJsCacheStore {
+    if (typeof store !== 'string') {
+      this.customStores.add(store);
+      return store;
+    }
+    if (!this.stores[store]) {
+      this.stores[store] = store === 'localStorage' ? new CrabJsLocalStorageCacheStore()
+        : store === 'indexedDB' ? new CrabJsIndexedDBCacheStore()
+        : new CrabJsMemoryCacheStore();
+    }
+    return this.stores[store];
+  }
+
+  /**
+   * Removes the response cached under a key from every store in use
+   * @param key - The cache key (the request URL unless a custom key was given)
+   */
+  public async invalidate(key: string): Promise<void> {
+    await Promise.all(this.allStores().map(store => store.delete(key)));
+  }
+
+  /**
+   * Removes every cached response whose URL starts with a prefix
+   * @param prefix - The URL prefix
+   */
+  public async invalidateUrl(prefix: string): Promise<void> {
+    await Promise.all(this.allStores().map(async store => {
+      const keys = await store.keys();
+      for (const key of keys) {
+        const entry = await store.get(key);
+        if (entry && entry.url.indexOf(prefix) === 0) {
+          await store.delete(key);
+        }
+      }
+    }));
+  }
+
+  /**
+   * Removes every cached response from every store in use
+   */
+  public async clear(): Promise<void> {
+    await Promise.all(this.allStores().map(store => store.clear()));
+  }
+
+  private allStores(): CrabJsCacheStore[] {
+    return Object.keys(this.stores).map(name => this.stores[name]).concat(Array.from(this.customStores));
+  }
+}
+
+/**
+ * Interface for a request as handed to a transport adapter
+ */
+interface CrabJsAdapterRequest {
+  /** The full URL, including query parameters */
+  url: string;
+  /** Upper-cased HTTP method */
+  method: string;
+  /** Request headers, including the content type */
+  headers: Record<string, string>;
+  /** The encoded request body */
+  body: XMLHttpRequestBodyInit | null;
+  /** Timeout for the request in milliseconds */
+  timeout?: number;
+  /** Expected response type */
+  responseType?: XMLHttpRequestResponseType;
+  /** Signal used to cancel the request */
+  signal?: AbortSignal;
+  /** Whether to resolve as soon as headers arrive, with a CrabJsChunkReader as the body. Adapters may ignore it */
+  stream?: boolean;
+  /** The options the request was made with */
+  config: Options;
+}
+
+/**
+ * Interface for the raw response a transport adapter resolves with
+ */
+interface CrabJsAdapterResponse {
+  /** HTTP status code */
+  status: number;
+  /** HTTP status text */
+  statusText: string;
+  /** Response headers keyed by lower-cased header name */
+  headers: Record<string, string>;
+  /** The unparsed response body (text, binary data for binary response types, or a CrabJsChunkReader for streams) */
+  body: unknown;
 }
 
- class CrabJsAjax {
+/**
+ * Interface for a transport that sends requests. Adapters resolve with any HTTP
+ * status and reject with a CrabJsHttpError only when no response was received
+ */
+interface CrabJsAjaxAdapter {
+  /** Sends a request */
+  send(request: CrabJsAdapterRequest): Promise<CrabJsAdapterResponse>;
+}
+
+/**
+ * Interface for a response body read as it arrives
+ */
+interface CrabJsChunkReader {
+  /** Reads the next piece of text, resolving with null at the end of the body */
+  read(): Promise<string | null>;
+  /** Stops reading and releases the connection */
+  cancel(): void;
+}
+
+/**
+ * Chunk reader fed by a transport that pushes data, buffering chunks until they are read
+ */
+class CrabJsChunkBuffer implements CrabJsChunkReader {
+  private chunks: string[] = [];
+  private ended = false;
+  private error: Error | null = null;
+  private waiting: { resolve: (chunk: string | null) => void; reject: (error: Error) => void } | null = null;
+  private onCancel?: () => void;
+
+  constructor(onCancel?: () => void) {
+    this.onCancel = onCancel;
+  }
+
+  /**
+   * Creates a reader delivering a complete body as a single chunk
+   * @param body - The body text
+   * @returns The reader
+   */
+  public static of(body: string): CrabJsChunkBuffer {
+    const buffer = new CrabJsChunkBuffer();
+    buffer.push(body);
+    buffer.end();
+    return buffer;
+  }
+
+  /**
+   * Adds a chunk
+   * @param chunk - The text received
+   */
+  public push(chunk: string): void {
+    if (this.ended || !chunk) return;
+    if (this.waiting) {
+      this.waiting.resolve(chunk);
+      this.waiting = null;
+    } else {
+      this.chunks.push(chunk);
+    }
+  }
+
+  /**
+   * Marks the end of the body
+   */
+  public end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.waiting && this.waiting.resolve(null);
+    this.waiting = null;
+  }
+
+  /**
+   * Fails the body; reads reject once the buffered chunks are consumed
+   * @param error - The error
+   */
+  public fail(error: Error): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.error = error;
+    this.waiting && this.waiting.reject(error);
+    this.waiting = null;
+  }
+
+  public read(): Promise<string | null> {
+    if (this.chunks.length) return Promise.resolve(this.chunks.shift() as string);
+    if (this.error) return Promise.reject(this.error);
+    if (this.ended) return Promise.resolve(null);
+    return new Promise<string | null>((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  public cancel(): void {
+    if (this.ended) return;
+    this.chunks = [];
+    this.end();
+    this.onCancel && this.onCancel();
+  }
+}
+
+/**
+ * Class to parse a streamed response body into records, read on demand through async iteration
+ */
+class CrabJsResponseStream<T = unknown> implements AsyncIterable<T> {
+  private reader: CrabJsChunkReader;
+  private format: CrabJsStreamFormat;
+  private response: CrabJsResponse;
+  private buffer = '';
+  private records: T[] = [];
+  private done = false;
+  private failure: CrabJsHttpError | null = null;
+
+  constructor(reader: CrabJsChunkReader, format: CrabJsStreamFormat, response: CrabJsResponse) {
+    this.reader = reader;
+    this.format = format;
+    this.response = response;
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: () => this.next(),
+      return: async () => {
+        this.cancel();
+        return { done: true, value: undefined };
+      }
+    };
+  }
+
+  /**
+   * Reads the next record. The body is only read from the transport when no parsed record is waiting
+   * @returns The next record, or done at the end of the body
+   */
+  public async next(): Promise<IteratorResult<T>> {
+    while (!this.records.length) {
+      if (this.failure) {
+        const failure = this.failure;
+        this.failure = null;
+        throw failure;
+      }
+      if (this.done) return { done: true, value: undefined };
+      let chunk: string | null;
+      try {
+        chunk = await this.reader.read();
+      } catch (error) {
+        this.done = true;
+        throw error instanceof CrabJsHttpError ? error : new CrabJsNetworkError(this.response.config, 'Network error', error as Error);
+      }
+      if (chunk === null) {
+        this.done = true;
+      }
+      this.parse(chunk || '', this.done);
+    }
+    return { done: false, value: this.records.shift() as T };
+  }
+
+  /**
+   * Stops reading and releases the connection. Records not yet read are discarded
+   */
+  public cancel(): void {
+    if (this.done && !this.records.length) return;
+    this.done = true;
+    this.records = [];
+    this.reader.cancel();
+  }
+
+  /**
+   * Reads every remaining record
+   * @returns A promise resolving with the records
+   */
+  public async toArray(): Promise<T[]> {
+    const records: T[] = [];
+    for (let result = await this.next(); !result.done; result = await this.next()) {
+      records.push(result.value);
+    }
+    return records;
+  }
+
+  /**
+   * Splits buffered text into records
+   * @param chunk - The text received
+   * @param final - Whether this is the end of the body
+   */
+  private parse(chunk: string, final: boolean): void {
+    if (this.format === 'text') {
+      chunk && this.records.push(chunk as unknown as T);
+      return;
+    }
+
+    this.buffer += chunk;
+    const parts = this.buffer.split(this.format === 'ndjson' ? '\n' : '\x1e');
+    let rest = final ? '' : parts.pop() as string;
+    // A JSON text sequence record is complete once its line feed arrives, without waiting for the next separator
+    if (this.format === 'json-seq' && /\n\s*$/.test(rest) && this.tryParse(rest) !== undefined) {
+      parts.push(rest);
+      rest = '';
+    }
+    this.buffer = rest;
+
+    // Records before an invalid one are still delivered; the parse error follows them
+    for (const part of parts) {
+      const text = part.trim();
+      if (!text) continue;
+      try {
+        this.records.push(JSON.parse(text));
+      } catch (error) {
+        this.done = true;
+        this.failure = new CrabJsParseError(this.response.config, this.response, error as Error);
+        this.reader.cancel();
+        return;
+      }
+    }
+  }
+
+  /**
+   * Parses JSON text, returning undefined if it is invalid
+   */
+  private tryParse(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Class to turn raw byte counts into throttled progress updates
+ */
+class CrabJsProgressTracker {
+  private callback: (progress: CrabJsProgress) => void;
+  private interval: number;
+  private startTime = Date.now();
+  private lastEmit = 0;
+
+  constructor(callback: (progress: CrabJsProgress) => void, interval = 100) {
+    this.callback = callback;
+    this.interval = interval;
+  }
+
+  /**
+   * Records a new byte count, reporting it unless an update was reported too recently
+   * @param loaded - Bytes transferred so far
+   * @param total - Total bytes, or 0 if unknown
+   * @param done - Whether the transfer has finished
+   */
+  public update(loaded: number, total: number, done = false): void {
+    const now = Date.now();
+    if (!done && now - this.lastEmit < this.interval) return;
+    this.lastEmit = now;
+
+    const elapsed = Math.max(now - this.startTime, 1) / 1000;
+    const rate = loaded / elapsed;
+    const known = total > 0;
+    try {
+      this.callback({
+        loaded,
+        total: known ? total : undefined,
+        percent: known ? Math.min(100, loaded / total * 100) : undefined,
+        rate,
+        estimated: known ? (rate > 0 ? Math.max(0, total - loaded) / rate : undefined) : undefined,
+        done
+      });
+    } catch (error) {
+      console.error('Error in progress callback:', error);
+    }
+  }
+
+  /**
+   * Creates a tracker for a progress callback, if one is set
+   * @param callback - The progress callback
+   * @param config - The options of the request
+   * @returns The tracker, or null without a callback
+   */
+  public static create(callback: ((progress: CrabJsProgress) => void) | undefined, config: Options): CrabJsProgressTracker | null {
+    return callback ? new CrabJsProgressTracker(callback, config.progressInterval) : null;
+  }
+}
+
+/**
+ * Adapter sending requests over XMLHttpRequest
+ */
+class CrabJsXhrAdapter implements CrabJsAjaxAdapter {
+  public send(request: CrabJsAdapterRequest): Promise<CrabJsAdapterResponse> {
+    return new Promise<CrabJsAdapterResponse>((resolve, reject) => {
+      let settled = false;
+      let removeAbortListener = () => { /* no signal attached */ };
+      // Streams resolve when headers arrive and feed the body into a buffer as it loads
+      const streaming = !!request.stream && (!request.responseType || request.responseType === 'text' || request.responseType === 'json');
+      let buffer: CrabJsChunkBuffer | null = null;
+      let offset = 0;
+
+      const fail = (error: CrabJsHttpError) => {
+        if (buffer) {
+          removeAbortListener();
+          buffer.fail(error);
+          return;
+        }
+        if (settled) return;
+        settled = true;
+        removeAbortListener();
+        reject(error);
+      };
+
+      try {
+        const xhr = new XMLHttpRequest();
+        xhr.open(request.method, request.url, true);
+
+        // Set headers
+        try {
+          for (const key in request.headers) {
+            xhr.setRequestHeader(key, request.headers[key]);
+          }
+        } catch (error) {
+          fail(new CrabJsConfigError(request.config, 'Invalid headers', error as Error));
+          return;
+        }
+
+        // Set response type. JSON is read as text and parsed by CrabJsAjax so parse errors can be reported
+        if (request.responseType) {
+          try {
+            xhr.responseType = request.responseType === 'json' ? 'text' : request.responseType;
+          } catch (error) {
+            fail(new CrabJsConfigError(request.config, 'Invalid response type', error as Error));
+            return;
+          }
+        }
+
+        const flush = () => {
+          if (!buffer || xhr.readyState < XMLHttpRequest.LOADING) return;
+          const text = xhr.responseText;
+          buffer.push(text.slice(offset));
+          offset = text.length;
+        };
+
+        // Handle response
+        xhr.onreadystatechange = () => {
+          // Status 0 means no response; onerror, ontimeout or onabort reports it
+          if (xhr.status === 0) return;
+          if (streaming && !settled && xhr.readyState >= XMLHttpRequest.HEADERS_RECEIVED) {
+            settled = true;
+            // The timeout covers waiting for headers, not reading the rest of the stream
+            xhr.timeout = 0;
+            buffer = new CrabJsChunkBuffer(() => xhr.abort());
+            resolve({
+              status: xhr.status,
+              statusText: xhr.statusText,
+              headers: CrabJsXhrAdapter.parseHeaders(xhr.getAllResponseHeaders()),
+              body: buffer
+            });
+          }
+          if (buffer) {
+            flush();
+            if (xhr.readyState === XMLHttpRequest.DONE) {
+              removeAbortListener();
+              buffer.end();
+            }
+            return;
+          }
+          if (xhr.readyState !== XMLHttpRequest.DONE || settled) return;
+          settled = true;
+          removeAbortListener();
+          resolve({
+            status: xhr.status,
+            statusText: xhr.statusText,
+            headers: CrabJsXhrAdapter.parseHeaders(xhr.getAllResponseHeaders()),
+            body: xhr.responseType && xhr.responseType !== 'text' ? xhr.response : xhr.responseText
+          });
+        };
+
+        // Handle network errors
+        xhr.onerror = () => {
+          fail(new CrabJsNetworkError(request.config));
+        };
+
+        // Handle cancellation
+        xhr.onabort = () => {
+          fail(new CrabJsAbortError(request.config));
+        };
+
+        // Report progress. Upload listeners are only attached when needed since they force a CORS preflight
+        const uploadProgress = CrabJsProgressTracker.create(request.config.onUploadProgress, request.config);
+        if (uploadProgress && xhr.upload) {
+          xhr.upload.onprogress = (event) => uploadProgress.update(event.loaded, event.lengthComputable ? event.total : 0);
+          xhr.upload.onload = (event) => uploadProgress.update(event.loaded, event.lengthComputable ? event.total : 0, true);
+        }
+        const downloadProgress = CrabJsProgressTracker.create(request.config.onDownloadProgress, request.config);
+        if (downloadProgress) {
+          xhr.onprogress = (event) => downloadProgress.update(event.loaded, event.lengthComputable ? event.total : 0);
+          xhr.onload = (event) => downloadProgress.update(event.loaded, event.lengthComputable ? event.total : 0, true);
+        }
+        if (streaming) {
+          xhr.addEventListener('progress', flush);
+        }
+
+        if (request.signal) {
+          const signal = request.signal;
+          const onAbort = () => xhr.abort();
+          signal.addEventListener('abort', onAbort);
+          removeAbortListener = () => signal.removeEventListener('abort', onAbort);
+        }
+
+        // Handle timeout
+        if (request.timeout) {
+          xhr.timeout = request.timeout;
+          xhr.ontimeout = () => {
+            fail(new CrabJsTimeoutError(request.config));
+          };
+        }
+
+        xhr.send(request.body);
+
+      } catch (error) {
+        fail(new CrabJsNetworkError(request.config, 'Unexpected error occurred', error as Error));
+      }
+    });
+  }
+
+  /**
+   * Parses the raw header block returned by getAllResponseHeaders
+   * @param rawHeaders - The raw header string
+   * @returns The headers keyed by lower-cased name
+   */
+  private static parseHeaders(rawHeaders: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    rawHeaders.trim().split(/[\r\n]+/).forEach(line => {
+      const separator = line.indexOf(':');
+      if (separator <= 0) return;
+      const name = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+      headers[name] = headers[name] ? `${headers[name]}, ${value}` : value;
+    });
+    return headers;
+  }
+}
+
+/**
+ * Adapter sending requests with the fetch API
+ */
+class CrabJsFetchAdapter implements CrabJsAjaxAdapter {
+  public async send(request: CrabJsAdapterRequest): Promise<CrabJsAdapterResponse> {
+    const controller = new AbortController();
+    let timedOut = false;
+    let streaming = false;
+    const onAbort = () => controller.abort();
+    const timer = request.timeout ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeout) : null;
+    request.signal && request.signal.addEventListener('abort', onAbort);
+
+    try {
+      const response = await fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: controller.signal
+      });
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+
+      const downloadProgress = CrabJsProgressTracker.create(request.config.onDownloadProgress, request.config);
+      const source = downloadProgress && response.body
+        ? CrabJsFetchAdapter.trackProgress(response, downloadProgress, parseInt(headers['content-length'], 10) || 0)
+        : response;
+
+      let body: unknown;
+      if (request.stream && source.body && request.responseType !== 'arraybuffer' && request.responseType !== 'blob') {
+        streaming = true;
+        timer && clearTimeout(timer);
+        body = CrabJsFetchAdapter.readChunks(source.body, controller, request, () => {
+          request.signal && request.signal.removeEventListener('abort', onAbort);
+        });
+      } else if (request.responseType === 'arraybuffer') {
+        body = await source.arrayBuffer();
+      } else if (request.responseType === 'blob') {
+        body = await source.blob();
+      } else {
+        body = await source.text();
+      }
+
+      return { status: response.status, statusText: response.statusText, headers, body };
+    } catch (error) {
+      if (timedOut) {
+        throw new CrabJsTimeoutError(request.config);
+      }
+      if (controller.signal.aborted) {
+        throw new CrabJsAbortError(request.config);
+      }
+      throw new CrabJsNetworkError(request.config, 'Network error', error as Error);
+    } finally {
+      timer && clearTimeout(timer);
+      // A stream keeps listening for cancellation until its body has been read
+      if (!streaming) {
+        request.signal && request.signal.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  /**
+   * Reads a response body as text chunks, pulling from the network only when a chunk is requested
+   * @param body - The response body
+   * @param controller - The controller cancelling the request
+   * @param request - The request being read
+   * @param cleanup - Called once the body has been read, failed or been cancelled
+   * @returns The chunk reader
+   */
+  private static readChunks(body: ReadableStream<Uint8Array>, controller: AbortController, request: CrabJsAdapterRequest, cleanup: () => void): CrabJsChunkReader {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let finished = false;
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      cleanup();
+    };
+
+    return {
+      read: async () => {
+        if (finished) return null;
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            finish();
+            return decoder.decode() || null;
+          }
+          return decoder.decode(value, { stream: true });
+        } catch (error) {
+          finish();
+          throw controller.signal.aborted
+            ? new CrabJsAbortError(request.config)
+            : new CrabJsNetworkError(request.config, 'Network error', error as Error);
+        }
+      },
+      cancel: () => {
+        if (finished) return;
+        finish();
+        reader.cancel().catch(() => undefined);
+      }
+    };
+  }
+
+  /**
+   * Wraps a response so reading its body reports download progress
+   * @param response - The response to read
+   * @param tracker - The progress tracker
+   * @param total - The expected body size, or 0 if unknown
+   * @returns A response reading the same body
+   */
+  private static trackProgress(response: Response, tracker: CrabJsProgressTracker, total: number): Response {
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+    let loaded = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { done, value } = await reader.read();
+        if (done) {
+          tracker.update(loaded, total, true);
+          controller.close();
+          return;
+        }
+        loaded += value.byteLength;
+        tracker.update(loaded, total);
+        controller.enqueue(value);
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      }
+    });
+    return new Response(stream, { headers: response.headers, status: response.status, statusText: response.statusText });
+  }
+}
+
+/**
+ * Interface for a reply produced by a CrabJsMockAdapter route
+ */
+interface CrabJsMockReply {
+  /** HTTP status code (default: 200) */
+  status?: number;
+  /** HTTP status text (default: 'OK', or 'Error' for non-2xx statuses) */
+  statusText?: string;
+  /** Response headers */
+  headers?: Record<string, string>;
+  /** Response body. Objects are passed through as already parsed data */
+  data?: unknown;
+  /** Response body delivered in pieces to streaming requests, replacing data */
+  chunks?: string[];
+  /** Time between chunks in milliseconds (default: 0) */
+  chunkDelay?: number;
+  /** Latency for this reply in milliseconds, overriding the adapter latency */
+  delay?: number;
+  /** Fails the request instead of answering it */
+  error?: 'network' | 'timeout';
+}
+
+/**
+ * A route handler: a fixed reply, or a function computing one from the request
+ */
+type CrabJsMockHandler = CrabJsMockReply | ((request: CrabJsAdapterRequest) => CrabJsMockReply | Promise<CrabJsMockReply>);
+
+/**
+ * Interface for a CrabJsMockAdapter route
+ */
+interface CrabJsMockRoute {
+  method: string;
+  url: string | RegExp;
+  handler: CrabJsMockHandler;
+  /** Remaining number of requests this route answers, or undefined for unlimited */
+  times?: number;
+}
+
+/**
+ * Adapter answering requests from an in-memory route table, for offline tests
+ */
+class CrabJsMockAdapter implements CrabJsAjaxAdapter {
+  /** Every request the adapter received, in order */
+  public readonly requests: CrabJsAdapterRequest[] = [];
+  private routes: CrabJsMockRoute[] = [];
+  private latency: number | ((request: CrabJsAdapterRequest) => number) = 0;
+
+  /**
+   * Adds a route. Routes are matched in the order they were added
+   * @param method - The HTTP method to match, or '*' for any
+   * @param url - The URL to match, with or without its query string, or a pattern
+   * @param handler - The reply, or a function producing it
+   * @param times - How many requests the route answers before it is removed (default: unlimited)
+   * @returns The current instance for chaining
+   */
+  public on(method: string, url: string | RegExp, handler: CrabJsMockHandler, times?: number): CrabJsMockAdapter {
+    this.routes.push({ method: method.toUpperCase(), url, handler, times });
+    return this;
+  }
+
+  /**
+   * Makes matching requests fail with a network error
+   * @param method - The HTTP method to match, or '*' for any
+   * @param url - The URL to match
+   * @param times - How many requests fail before the route is removed (default: unlimited)
+   * @returns The current instance for chaining
+   */
+  public networkError(method: string, url: string | RegExp, times?: number): CrabJsMockAdapter {
+    return this.on(method, url, { error: 'network' }, times);
+  }
+
+  /**
+   * Makes matching requests time out
+   * @param method - The HTTP method to match, or '*' for any
+   * @param url - The URL to match
+   * @param times - How many requests time out before the route is removed (default: unlimited)
+   * @returns The current instance for chaining
+   */
+  public timeout(method: string, url: string | RegExp, times?: number): CrabJsMockAdapter {
+    return this.on(method, url, { error: 'timeout' }, times);
+  }
+
+  /**
+   * Sets the latency applied to every reply that doesn't set its own
+   * @param latency - Milliseconds, or a function computing them per request
+   * @returns The current instance for chaining
+   */
+  public setLatency(latency: number | ((request: CrabJsAdapterRequest) => number)): CrabJsMockAdapter {
+    this.latency = latency;
+    return this;
+  }
+
+  /**
+   * Gets the recorded requests matching a method and URL
+   * @param method - The HTTP method to match, or '*' for any
+   * @param url - The URL to match
+   * @returns The matching requests
+   */
+  public requestsTo(method: string, url: string | RegExp): CrabJsAdapterRequest[] {
+    return this.requests.filter(request => CrabJsMockAdapter.matches(method.toUpperCase(), url, request));
+  }
+
+  /**
+   * Throws if the adapter didn't receive the expected requests
+   * @param method - The HTTP method to match, or '*' for any
+   * @param url - The URL to match
+   * @param times - The exact number of expected requests (default: at least one)
+   */
+  public assertRequested(method: string, url: string | RegExp, times?: number): void {
+    const count = this.requestsTo(method, url).length;
+    if (times === undefined ? count === 0 : count !== times) {
+      const expected = times === undefined ? 'at least one request' : `${times} request(s)`;
+      throw new Error(`Expected ${expected} to ${method.toUpperCase()} ${url}, received ${count}`);
+    }
+  }
+
+  /**
+   * Removes all routes and recorded requests
+   */
+  public reset(): void {
+    this.routes = [];
+    this.requests.length = 0;
+    this.latency = 0;
+  }
+
+  public async send(request: CrabJsAdapterRequest): Promise<CrabJsAdapterResponse> {
+    this.requests.push(request);
+
+    const route = this.routes.find(candidate => CrabJsMockAdapter.matches(candidate.method, candidate.url, request));
+    if (route && route.times !== undefined && --route.times <= 0) {
+      this.routes.splice(this.routes.indexOf(route), 1);
+    }
+
+    const reply: CrabJsMockReply = !route
+      ? { status: 404, statusText: 'Not Found', data: `No mock route for ${request.method} ${request.url}` }
+      : typeof route.handler === 'function' ? await route.handler(request) : route.handler;
+
+    const delay = reply.delay !== undefined ? reply.delay
+      : typeof this.latency === 'function' ? this.latency(request) : this.latency;
+    const timedOut = reply.error === 'timeout' || (!!request.timeout && delay > request.timeout);
+    await CrabJsMockAdapter.wait(timedOut && request.timeout ? Math.min(delay, request.timeout) : delay, request);
+
+    if (timedOut) {
+      throw new CrabJsTimeoutError(request.config);
+    }
+    if (reply.error === 'network') {
+      throw new CrabJsNetworkError(request.config);
+    }
+
+    // Report each transfer as a single completed step
+    const uploadProgress = CrabJsProgressTracker.create(request.config.onUploadProgress, request.config);
+    if (uploadProgress && request.body !== null) {
+      const size = CrabJsMockAdapter.byteLength(request.body);
+      uploadProgress.update(size, size, true);
+    }
+    const downloadProgress = CrabJsProgressTracker.create(request.config.onDownloadProgress, request.config);
+    if (downloadProgress) {
+      const size = CrabJsMockAdapter.byteLength(reply.data);
+      downloadProgress.update(size, size, true);
+    }
+
+    const status = reply.status || 200;
+    return {
+      status,
+      statusText: reply.statusText || (status >= 200 && status < 300 ? 'OK' : 'Error'),
+      headers: Object.keys(reply.headers || {}).reduce((headers: Record<string, string>, name) => {
+        headers[name.toLowerCase()] = (reply.headers as Record<string, string>)[name];
+        return headers;
+      }, {}),
+      body: request.stream && reply.chunks ? CrabJsMockAdapter.readChunks(reply.chunks, reply.chunkDelay || 0, request)
+        : reply.data === undefined ? (reply.chunks ? reply.chunks.join('') : '') : reply.data
+    };
+  }
+
+  /**
+   * Creates a reader delivering scripted chunks one at a time
+   */
+  private static readChunks(chunks: string[], delay: number, request: CrabJsAdapterRequest): CrabJsChunkReader {
+    let index = 0;
+    let cancelled = false;
+    return {
+      read: async () => {
+        if (cancelled || index >= chunks.length) return null;
+        await CrabJsMockAdapter.wait(delay, request);
+        return cancelled ? null : chunks[index++];
+      },
+      cancel: () => {
+        cancelled = true;
+      }
+    };
+  }
+
+  /**
+   * Checks whether a request matches a route's method and URL
+   */
+  private static matches(method: string, url: string | RegExp, request: CrabJsAdapterRequest): boolean {
+    if (method !== '*' && method !== request.method) return false;
+    if (url instanceof RegExp) return url.test(request.url);
+    return url === request.url || url === request.url.split('?')[0];
+  }
+
+  /**
+   * Estimates the size of a request or reply body in bytes
+   */
+  private static byteLength(body: unknown): number {
+    if (body === undefined || body === null) return 0;
+    if (typeof body === 'string') return body.length;
+    if (typeof Blob !== 'undefined' && body instanceof Blob) return body.size;
+    if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength;
+    if (typeof FormData !== 'undefined' && body instanceof FormData) return 0;
+    return JSON.stringify(body).length;
+  }
+
+  /**
+   * Waits out the simulated latency, failing early if the request is cancelled
+   */
+  private static wait(ms: number, request: CrabJsAdapterRequest): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const signal = request.signal;
+      if (signal && signal.aborted) {
+        reject(new CrabJsAbortError(request.config));
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new CrabJsAbortError(request.config));
+      };
+      const timer = setTimeout(() => {
+        signal && signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal && signal.addEventListener('abort', onAbort);
+    });
+  }
+}
+
+/**
+ * Class to run tasks with a concurrency limit, starting waiting tasks by priority
+ */
+class CrabJsRequestQueue {
+  private static priorities: Record<CrabJsRequestPriority, number> = { high: 2, normal: 1, low: 0 };
+  private limit: number;
+  private running: CrabJsQueuedRequest[] = [];
+  private waiting: Array<{ request: CrabJsQueuedRequest; start: () => void }> = [];
+
+  constructor(limit: number) {
+    this.limit = Math.max(1, limit);
+  }
+
+  /**
+   * The requests currently running
+   */
+  public get active(): CrabJsQueuedRequest[] {
+    return this.running.slice();
+  }
+
+  /**
+   * The requests waiting for a free slot, in the order they will start
+   */
+  public get pending(): CrabJsQueuedRequest[] {
+    return this.waiting.map(item => item.request);
+  }
+
+  /**
+   * Changes the concurrency limit, starting waiting tasks if slots became free
+   * @param limit - The new limit
+   */
+  public setLimit(limit: number): void {
+    this.limit = Math.max(1, limit);
+    this.next();
+  }
+
+  /**
+   * Runs a task now or once a slot is free
+   * @param request - Describes the task for the queue view
+   * @param task - The task to run
+   * @param signal - Signal removing the task from the queue while it waits
+   * @param abortError - Creates the error to reject with when the waiting task is cancelled
+   * @returns A promise settling with the task's result
+   */
+  public run<T>(request: CrabJsQueuedRequest, task: () => Promise<T>, signal: AbortSignal | undefined, abortError: () => Error): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(item => item !== entry);
+        reject(abortError());
+      };
+      const start = () => {
+        signal && signal.removeEventListener('abort', onAbort);
+        request.startedAt = Date.now();
+        this.running.push(request);
+        const finish = () => {
+          this.running = this.running.filter(item => item !== request);
+          this.next();
+        };
+        task().then(result => {
+          finish();
+          resolve(result);
+        }, error => {
+          finish();
+          reject(error);
+        });
+      };
+      const entry = { request, start };
+
+      if (this.running.length < this.limit) {
+        start();
+        return;
+      }
+      if (signal && signal.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      // Insert after every waiting task of the same or higher priority
+      const rank = CrabJsRequestQueue.priorities[request.priority];
+      let index = this.waiting.length;
+      while (index > 0 && CrabJsRequestQueue.priorities[this.waiting[index - 1].request.priority] < rank) {
+        index--;
+      }
+      this.waiting.splice(index, 0, entry);
+      signal && signal.addEventListener('abort', onAbort);
+    });
+  }
+
+  /**
+   * Starts waiting tasks while slots are free
+   */
+  private next(): void {
+    while (this.running.length < this.limit && this.waiting.length) {
+      const item = this.waiting.shift();
+      item && item.start();
+    }
+  }
+}
+
+/**
+ * Interface for a request saved to the offline queue
+ */
+interface CrabJsOfflineEntry {
+  /** The request's idempotency key, unique within the queue */
+  key: string;
+  /** Position in the queue; entries replay in ascending order */
+  sequence: number;
+  /** When the request was queued (timestamp in milliseconds) */
+  createdAt: number;
+  /** The options the request is replayed with */
+  request: Pick<Options, 'method' | 'url' | 'baseURL' | 'data' | 'headers' | 'params' | 'arrayFormat' | 'timeout' | 'responseType' | 'contentType'>;
+}
+
+/**
+ * Interface for offline queue storage backends
+ */
+interface CrabJsOfflineStore {
+  getAll(): Promise<CrabJsOfflineEntry[]>;
+  put(entry: CrabJsOfflineEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Interface for offline queue options
+ */
+interface CrabJsOfflineOptions {
+  /** Where queued requests are kept (default: 'indexedDB' where available, otherwise 'memory') */
+  store?: 'indexedDB' | 'memory' | CrabJsOfflineStore;
+  /** Client that replays queued requests, running its interceptors (default: the default CrabJsAjax instance) */
+  client?: CrabJsAjax;
+  /** Header carrying the idempotency key (default: 'Idempotency-Key') */
+  idempotencyHeader?: string;
+  /** Methods that may be queued (default: POST, PUT, PATCH, DELETE) */
+  methods?: string[];
+}
+
+/**
+ * Interface for the data passed to offline queue event handlers:
+ * - 'queued': a request was saved; receives the entry
+ * - 'success': a replayed request succeeded; receives { entry, response }
+ * - 'failure': a replayed request was rejected by the server and dropped; receives { entry, error }
+ * - 'drained': replay emptied the queue
+ */
+interface CrabJsOfflineEvents {
+  queued: CrabJsOfflineEntry;
+  success: { entry: CrabJsOfflineEntry; response: CrabJsResponse };
+  failure: { entry: CrabJsOfflineEntry; error: CrabJsHttpError };
+  drained: undefined;
+}
+
+/**
+ * Handler for an offline queue event
+ */
+type CrabJsOfflineHandler<T = unknown> = (data: T) => void;
+
+/**
+ * Class to keep offline queue entries in memory
+ */
+class CrabJsMemoryOfflineStore implements CrabJsOfflineStore {
+  private entries = new Map<string, CrabJsOfflineEntry>();
+
+  public async getAll(): Promise<CrabJsOfflineEntry[]> {
+    return Array.from(this.entries.values());
+  }
+
+  public async put(entry: CrabJsOfflineEntry): Promise<void> {
+    this.entries.set(entry.key, entry);
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  public async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Class to keep offline queue entries in IndexedDB so they survive page reloads
+ */
+class CrabJsIndexedDBOfflineStore implements CrabJsOfflineStore {
+  private dbName: string;
+  private storeName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName = 'crabjs-offline', storeName = 'requests') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  public async getAll(): Promise<CrabJsOfflineEntry[]> {
+    return this.run<CrabJsOfflineEntry[]>('readonly', store => store.getAll());
+  }
+
+  public async put(entry: CrabJsOfflineEntry): Promise<void> {
+    await this.run('readwrite', store => store.put(entry, entry.key));
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+
+  public async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear());
+  }
+
+  /**
+   * Opens the database, creating the object store on first use
+   * @returns The open database
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Runs a single request against the object store
+   * @param mode - The transaction mode
+   * @param action - Creates the request to run
+   * @returns The result of the request
+   */
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Class to save mutating requests that can't reach the server and replay them in order once back online
+ */
+class CrabJsOfflineQueue {
+  /** Options of the queue; may be changed at any time */
+  public options: CrabJsOfflineOptions = {};
+
+  private handlers = new Map<string, Set<CrabJsOfflineHandler>>();
+  private backend: CrabJsOfflineStore | null = null;
+  private replaying: Promise<void> | null = null;
+  private listening = false;
+
+  /**
+   * Adds a handler for a queue event
+   * @param type - The event name ('queued', 'success', 'failure' or 'drained')
+   * @param handler - The handler
+   * @returns The current instance for chaining
+   */
+  public on<K extends keyof CrabJsOfflineEvents>(type: K, handler: CrabJsOfflineHandler<CrabJsOfflineEvents[K]>): CrabJsOfflineQueue {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, new Set());
+    }
+    (this.handlers.get(type) as Set<CrabJsOfflineHandler>).add(handler as CrabJsOfflineHandler);
+    return this;
+  }
+
+  /**
+   * Removes a handler, every handler of an event, or every handler
+   * @param type - The event name (omit to remove everything)
+   * @param handler - The handler (omit to remove every handler of the event)
+   * @returns The current instance for chaining
+   */
+  public off<K extends keyof CrabJsOfflineEvents>(type?: K, handler?: CrabJsOfflineHandler<CrabJsOfflineEvents[K]>): CrabJsOfflineQueue {
+    if (type === undefined) {
+      this.handlers.clear();
+    } else if (handler === undefined) {
+      this.handlers.delete(type);
+    } else {
+      const handlers = this.handlers.get(type);
+      handlers && handlers.delete(handler as CrabJsOfflineHandler);
+    }
+    return this;
+  }
+
+  /**
+   * Gets the queued requests in replay order
+   * @returns The entries
+   */
+  public async entries(): Promise<CrabJsOfflineEntry[]> {
+    const entries = await this.store().getAll();
+    return entries.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  /**
+   * Removes a queued request
+   * @param key - The request's idempotency key
+   */
+  public async remove(key: string): Promise<void> {
+    await this.store().delete(key);
+  }
+
+  /**
+   * Removes every queued request
+   */
+  public async clear(): Promise<void> {
+    await this.store().clear();
+  }
+
+  /**
+   * Sends the queued requests in order. Stops at the first request that still can't reach
+   * the server; requests the server rejects are dropped and reported through 'failure'.
+   * Call on startup to replay requests queued in an earlier session
+   * @returns A promise resolving when the replay is over
+   */
+  public replay(): Promise<void> {
+    this.listen();
+    if (!this.replaying) {
+      this.replaying = this.replayEntries().then(
+        () => { this.replaying = null; },
+        error => {
+          this.replaying = null;
+          throw error;
+        }
+      );
+    }
+    return this.replaying;
+  }
+
+  /**
+   * Sends a request, saving it to the queue when the browser is offline or no response arrives
+   * @param config - The options for the AJAX request
+   * @param execute - Sends the request
+   * @returns A promise resolving with the response, or rejecting with an error marked as queued
+   */
+  public async send(config: Options, execute: (config: Options) => Promise<CrabJsResponse>): Promise<CrabJsResponse> {
+    const method = (config.method || 'GET').toUpperCase();
+    const methods = this.options.methods || ['POST', 'PUT', 'PATCH', 'DELETE'];
+    if (!methods.some(allowed => allowed.toUpperCase() === method)) {
+      return execute(config);
+    }
+
+    const header = this.options.idempotencyHeader || 'Idempotency-Key';
+    const key = config.idempotencyKey || (config.headers && config.headers[header]) || randomId();
+    const request: Options = { ...config, idempotencyKey: key, headers: { ...config.headers, [header]: key } };
+
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      const error = new CrabJsNetworkError(request, 'Offline');
+      throw await this.enqueue(request, error);
+    }
+    try {
+      return await execute(request);
+    } catch (error) {
+      if (error instanceof CrabJsHttpError && error.code === 'network') {
+        throw await this.enqueue(request, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Saves a request to the queue, ignoring it if its idempotency key is already queued
+   * @param config - The options for the AJAX request
+   * @param error - The error the request failed with
+   * @returns The error, marked as queued if the request was saved
+   */
+  private async enqueue(config: Options, error: CrabJsHttpError): Promise<CrabJsHttpError> {
+    this.listen();
+    try {
+      const entries = await this.store().getAll();
+      const key = config.idempotencyKey as string;
+      if (!entries.some(entry => entry.key === key)) {
+        const entry: CrabJsOfflineEntry = {
+          key,
+          sequence: entries.reduce((max, item) => Math.max(max, item.sequence), 0) + 1,
+          createdAt: Date.now(),
+          request: {
+            method: config.method,
+            url: config.url,
+            baseURL: config.baseURL,
+            data: config.data,
+            headers: config.headers,
+            params: config.params,
+            arrayFormat: config.arrayFormat,
+            timeout: config.timeout,
+            responseType: config.responseType,
+            contentType: config.contentType
+          }
+        };
+        await this.store().put(entry);
+        this.emit('queued', entry);
+      }
+      error.queued = true;
+    } catch (storeError) {
+      console.warn('Unable to queue offline request:', storeError);
+    }
+    return error;
+  }
+
+  /**
+   * Sends queued requests one at a time in order
+   */
+  private async replayEntries(): Promise<void> {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+    const client = this.options.client;
+    const entries = await this.entries();
+    for (const entry of entries) {
+      try {
+        const options: Options = { ...entry.request, url: entry.request.url, idempotencyKey: entry.key };
+        const response = await (client ? client.request(options) : CrabJsAjax.ajax(options));
+        await this.store().delete(entry.key);
+        this.emit('success', { entry, response });
+      } catch (error) {
+        const failure = error instanceof CrabJsHttpError ? error : new CrabJsNetworkError({ url: entry.request.url }, 'Network error', error as Error);
+        // Keep the request for the next replay while the server is unreachable or overloaded
+        if (failure.code === 'network' || failure.code === 'timeout' || (failure.code === 'http' && CrabJsAjax.retryDefaults.statuses.indexOf(failure.status) !== -1)) {
+          return;
+        }
+        await this.store().delete(entry.key);
+        this.emit('failure', { entry, error: failure });
+      }
+    }
+    this.emit('drained', undefined);
+  }
+
+  /**
+   * Replays the queue whenever the browser comes back online
+   */
+  private listen(): void {
+    if (this.listening || typeof window === 'undefined' || !window.addEventListener) return;
+    this.listening = true;
+    window.addEventListener('online', () => {
+      this.replay().catch(error => console.error('Error replaying offline requests:', error));
+    });
+  }
+
+  /**
+   * Gets the storage backend chosen by the store option
+   * @returns The offline store
+   */
+  private store(): CrabJsOfflineStore {
+    const store = this.options.store;
+    if (store && typeof store !== 'string') return store;
+    if (!this.backend) {
+      this.backend = store !== 'memory' && typeof indexedDB !== 'undefined' ? new CrabJsIndexedDBOfflineStore() : new CrabJsMemoryOfflineStore();
+    }
+    return this.backend;
+  }
+
+  /**
+   * Calls the handlers of an event
+   * @param type - The event name
+   * @param data - The data passed to the handlers
+   */
+  private emit<K extends keyof CrabJsOfflineEvents>(type: K, data: CrabJsOfflineEvents[K]): void {
+    const handlers = this.handlers.get(type);
+    if (!handlers) return;
+    Array.from(handlers).forEach(handler => {
+      try {
+        handler(data);
+      } catch (error) {
+        console.error(`Error in ${type} offline queue handler:`, error);
+      }
+    });
+  }
+}
+
+ class CrabJsAjax {
+  /**
+   * Retry settings used for anything a request's retry option leaves out
+   */
+  public static retryDefaults: CrabJsResolvedRetryOptions = {
+    attempts: 3,
+    delay: 300,
+    factor: 2,
+    maxDelay: 30000,
+    jitter: true,
+    respectRetryAfter: true,
+    methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+    statuses: [408, 429, 500, 502, 503, 504]
+  };
+
+  /**
+   * The adapter used when neither the request nor the instance sets one
+   */
+  public static defaultAdapter: CrabJsAjaxAdapter = new CrabJsXhrAdapter();
+
+  /**
+   * The response cache shared by all CrabJsAjax instances
+   */
+  public static readonly cache = new CrabJsHttpCache();
+
+  /**
+   * The queue saving requests sent with the offline option while the server is unreachable
+   */
+  public static readonly offline = new CrabJsOfflineQueue();
+
+  /**
+   * GET requests whose cached response is currently being revalidated in the background
+   */
+  private static revalidating = new Set<string>();
+
+  /**
+   * Shared requests currently in flight, by dedupe key
+   */
+  private static inFlight = new Map<string, CrabJsInFlightRequest>();
+
+  /**
+   * Numbers distinguishing adapters in dedupe keys
+   */
+  private static adapterIds = new WeakMap<CrabJsAjaxAdapter, number>();
+  private static nextAdapterId = 0;
+
+  /**
+   * Interceptors applied to requests made by every CrabJsAjax instance
+   */
+  public static readonly interceptors: CrabJsInterceptors = CrabJsAjax.createInterceptors();
+
+  /**
+   * The instance used by the static request methods
+   */
+  private static defaultInstance = new CrabJsAjax();
+
+  /**
+   * Interceptors applied only to requests made by this instance. They run after the global ones
+   */
+  public readonly interceptors: CrabJsInterceptors = CrabJsAjax.createInterceptors();
+
+  /**
+   * Options applied to every request made through this instance. Headers and params
+   * are merged with the request's own; any other option set on the request wins
+   */
+  public defaults: CrabJsAjaxDefaults;
+
+  /**
+   * Concurrency queues of this instance, by host ('*' when the limit is not per host)
+   */
+  private queues = new Map<string, CrabJsRequestQueue>();
+
+  /**
+   * Creates an instance with its own defaults and interceptors
+   * @param defaults - Options applied to every request made through this instance
+   */
+  constructor(defaults: CrabJsAjaxDefaults = {}) {
+    this.defaults = defaults;
+  }
+
+  /**
+   * The defaults of the instance used by the static request methods and CrabJs.ajax
+   */
+  public static get defaults(): CrabJsAjaxDefaults {
+    return CrabJsAjax.defaultInstance.defaults;
+  }
+
+  /**
+   * Gets the requests the default instance is running and the ones waiting for a free slot
+   * @returns The active and pending requests
+   */
+  public static getQueue(): { active: CrabJsQueuedRequest[]; pending: CrabJsQueuedRequest[] } {
+    return CrabJsAjax.defaultInstance.getQueue();
+  }
+
+  /**
+   * Gets the full URL the default instance would send a request to
+   * @param options - The options for the AJAX request
+   * @returns The URL with base URL and query parameters applied
+   */
+  public static getUri(options: Options): string {
+    return CrabJsAjax.defaultInstance.getUri(options);
+  }
+
+  /**
+   * Creates an independent client with its own defaults, interceptors and adapter
+   * @param defaults - Options applied to every request made through the client
+   * @returns The new client
+   */
+  public static create(defaults?: CrabJsAjaxDefaults): CrabJsAjax {
+    return new CrabJsAjax(defaults);
+  }
+
+  /**
+   * Performs an AJAX request with the given options
+   * @param options - The options for the AJAX request
+   * @returns A promise resolving with the response, or rejecting with a CrabJsHttpError
+   */
+  public static ajax<T = unknown>(options: Options): Promise<CrabJsResponse<T>> {
+    return CrabJsAjax.defaultInstance.request<T>(options);
+  }
+
+  /**
+   * Performs a GET request
+   * @param url - The URL to send the request to
+   * @param options - Additional request options
+   * @returns A promise resolving with the response
+   */
+  public static get<T = unknown>(url: string, options?: CrabJsRequestOptions): Promise<CrabJsResponse<T>> {
+    return CrabJsAjax.defaultInstance.get<T>(url, options);
+  }
+
+  /**
+   * Performs a DELETE request
+   * @param url - The URL to send the request to
+   * @param options - Additional request options
+   * @returns A promise resolving with the response
+   */
+  public static delete<T = unknown>(url: string, options?: CrabJsRequestOptions): Promise<CrabJsResponse<T>> {
+    return CrabJsAjax.defaultInstance.delete<T>(url, options);
+  }
+
+  /**
+   * Performs a POST request
+   * @param url - The URL to send the request to
+   * @param data - The request body
+   * @param options - Additional request options
+   * @returns A promise resolving with the response
+   */
+  public static post<T = unknown>(url: string, data?: unknown, options?: CrabJsRequestOptions): Promise<CrabJsResponse<T>> {
+    return CrabJsAjax.defaultInstance.post<T>(url, data, options);
+  }
+
+  /**
+   * Performs a PUT request
+   * @param url - The URL to send the request to
+   * @param data - The request body
+   * @param options - Additional request options
+   * @returns A promise resolving with the response
+   */
+  public static put<T = unknown>(url: string, data?: unknown, options?: CrabJsRequestOptions): Promise<CrabJsResponse<T>> {
+    return CrabJsAjax.defaultInstance.put<T>(url, data, options);
+  }
+
+  /**
+   * Performs a PATCH request
+   * @param url - The URL to send the request to
+   * @param data - The request body
+   * @param options - Additional request options
+   * @returns A promise resolving with the response
+   */
+  public static patch<T = unknown>(url: string, data?: unknown, options?: CrabJsRequestOptions): Promise<CrabJsResponse<T>> {
+    return CrabJsAjax.defaultInstance.patch<T>(url, data, options);
+  }
+
+  /**
+   * Performs an AJAX request through this instance's interceptors
+   * @param options - The options for the AJAX request
+   * @returns A promise resolving with the response, or rejecting with a CrabJsHttpError
+   */
+  public request<T = unknown>(options: Options): Promise<CrabJsResponse<T>> {
+    const config = this.withDefaults(options);
+    const sent = config.offline ? CrabJsAjax.offline.send(config, request => this.execute(request)) : this.execute(config);
+    const onChunk = config.onChunk;
+    const settled = config.stream && onChunk ? sent.then(response => CrabJsAjax.consumeStream(response, onChunk)) : sent;
+    const promise = settled as Promise<CrabJsResponse<T>>;
+
+    // Callbacks run beside the promise rather than in its chain: a throwing callback is reported without
+    // changing the outcome, and callback-style callers that ignore the promise get no unhandled rejections
+    const { success, error } = options;
+    if (success || error) {
+      promise.then(
+        response => {
+          try {
+            success && success(response.data);
+          } catch (callbackError) {
+            console.error('Error in success callback:', callbackError);
+          }
+        },
+        (failure: CrabJsHttpError) => {
+          try {
+            error && error(failure.status, failure.statusText, failure);
+          } catch (callbackError) {
+            console.error('Error in error callback:', callbackError);
+          }
+        }
+      );
+    }
+    return promise;
+  }
+
+  /**
+   * Performs a GET request through this instance
+   * @param url - The URL to send the request to
+   * @param options - Additional request options
+   * @returns A promise resolving with the response
+   */
+  public get<T = unknown>(url: string, options?: CrabJsRequestOptions): Promise<CrabJsResponse<T>> {
+    return this.request<T>({ ...options, url, method: 'GET' });
+  }
+
+  /**
+   * Performs a DELETE request through this instance
+   * @param url - The URL to send the request to
+   * @param options - Additional request options
+   * @returns A promise resolving with the response
+   */
+  public delete<T = unknown>(url: string, options?: CrabJsRequestOptions): Promise<CrabJsResponse<T>> {
+    return this.request<T>({ ...options, url, method: 'DELETE' });
+  }
+
+  /**
+   * Performs a POST request through this instance
+   * @param url - The URL to send the request to
+   * @param data - The request body
+   * @param options - Additional request options
+   * @returns A promise resolving with the response
+   */
+  public post<T = unknown>(url: string, data?: unknown, options?: CrabJsRequestOptions): Promise<CrabJsResponse<T>> {
+    return this.request<T>({ ...options, url, data, method: 'POST' });
+  }
+
+  /**
+   * Performs a PUT request through this instance
+   * @param url - The URL to send the request to
+   * @param data - The request body
+   * @param options - Additional request options
+   * @returns A promise resolving with the response
+   */
+  public put<T = unknown>(url: string, data?: unknown, options?: CrabJsRequestOptions): Promise<CrabJsResponse<T>> {
+    return this.request<T>({ ...options, url, data, method: 'PUT' });
+  }
+
+  /**
+   * Performs a PATCH request through this instance
+   * @param url - The URL to send the request to
+   * @param data - The request body
+   * @param options - Additional request options
+   * @returns A promise resolving with the response
+   */
+  public patch<T = unknown>(url: string, data?: unknown, options?: CrabJsRequestOptions): Promise<CrabJsResponse<T>> {
+    return this.request<T>({ ...options, url, data, method: 'PATCH' });
+  }
+
+  /**
+   * Gets the full URL a request made through this instance is sent to
+   * @param options - The options for the AJAX request
+   * @returns The URL with base URL and query parameters applied
+   */
+  public getUri(options: Options): string {
+    return CrabJsAjax.fullUrl(this.withDefaults(options));
+  }
+
+  /**
+   * Gets the requests this instance is running and the ones waiting for a free slot
+   * @returns The active and pending requests
+   */
+  public getQueue(): { active: CrabJsQueuedRequest[]; pending: CrabJsQueuedRequest[] } {
+    const queues = Array.from(this.queues.values());
+    return {
+      active: queues.reduce((all: CrabJsQueuedRequest[], queue) => all.concat(queue.active), []),
+      pending: queues.reduce((all: CrabJsQueuedRequest[], queue) => all.concat(queue.pending), [])
+    };
+  }
+
+  /**
+   * Applies this instance's defaults to request options
+   * @param options - The options for the AJAX request
+   * @returns The options with defaults filled in
+   */
+  private withDefaults(options: Options): Options {
+    const defaults = this.defaults;
+    const config: Options = { ...defaults, ...options };
+    if (defaults.headers || options.headers) {
+      config.headers = { ...defaults.headers, ...options.headers };
+    }
+    if (defaults.params || options.params) {
+      config.params = { ...defaults.params, ...options.params };
+    }
+    return config;
+  }
+
+  /**
+   * Gets the interceptors of one kind that apply to this instance, global ones first
+   * @param global - The global interceptor manager
+   * @param own - This instance's interceptor manager
+   * @returns The interceptors in the order they run
+   */
+  private interceptorChain<T>(global: CrabJsInterceptorManager<T>, own: CrabJsInterceptorManager<T>): T[] {
+    return this.defaults.useGlobalInterceptors === false ? own.toArray() : global.toArray().concat(own.toArray());
+  }
+
+  /**
+   * Runs the request through the global and instance interceptors around the transport
+   * @param options - The options for the AJAX request
+   * @returns A promise resolving with the final response
+   */
+  private async execute(options: Options): Promise<CrabJsResponse> {
+    let config: Options = { ...options };
+    try {
+      let response: CrabJsResponse | undefined;
+      const requestInterceptors = this.interceptorChain(CrabJsAjax.interceptors.request, this.interceptors.request);
+      for (const interceptor of requestInterceptors) {
+        const result = await interceptor(config);
+        if (CrabJsAjax.isResponse(result)) {
+          response = result;
+          break;
+        }
+        if (result) {
+          config = result;
+        }
+      }
+
+      if (!response) {
+        response = await this.sendCached(config);
+      }
+
+      const responseInterceptors = this.interceptorChain(CrabJsAjax.interceptors.response, this.interceptors.response);
+      for (const interceptor of responseInterceptors) {
+        response = (await interceptor(response)) || response;
+      }
+      return response;
+    } catch (error) {
+      let failure = CrabJsAjax.toHttpError(error, config);
+      const errorInterceptors = this.interceptorChain(CrabJsAjax.interceptors.error, this.interceptors.error);
+      for (const interceptor of errorInterceptors) {
+        try {
+          const recovered = await interceptor(failure, this);
+          if (recovered) return recovered;
+        } catch (replacement) {
+          failure = CrabJsAjax.toHttpError(replacement, config);
+        }
+      }
+      throw failure;
+    }
+  }
+
+  /**
+   * Serves GET requests from the response cache when the request's cache option allows
+   * @param config - The options for the AJAX request
+   * @returns A promise resolving with the cached or fetched response
+   */
+  private async sendCached(config: Options): Promise<CrabJsResponse> {
+    if (!config.cache || config.stream || (config.method || 'GET').toUpperCase() !== 'GET') {
+      return this.sendShared(config);
+    }
+
+    const cacheOptions: CrabJsCacheOptions = config.cache === true ? {} : config.cache;
+    const store = CrabJsAjax.cache.getStore(cacheOptions.store);
+    const url = CrabJsAjax.fullUrl(config);
+    const key = cacheOptions.key || url;
+
+    let entry: CrabJsCacheEntry | undefined;
+    try {
+      entry = await store.get(key);
+    } catch (error) {
+      console.warn('Unable to read cached response:', error);
+    }
+
+    if (entry) {
+      const now = Date.now();
+      if (now < entry.expiresAt) {
+        return CrabJsAjax.responseFromCache(entry, config);
+      }
+      if (now < entry.expiresAt + (cacheOptions.staleWhileRevalidate || 0)) {
+        if (!CrabJsAjax.revalidating.has(key)) {
+          CrabJsAjax.revalidating.add(key);
+          this.fetchIntoCache(config, cacheOptions, store, key, url, entry)
+            .catch(error => console.warn('Background revalidation failed:', error))
+            .then(() => CrabJsAjax.revalidating.delete(key));
+        }
+        return CrabJsAjax.responseFromCache(entry, config);
+      }
+    }
+
+    return this.fetchIntoCache(config, cacheOptions, store, key, url, entry);
+  }
+
+  /**
+   * Fetches a GET request and stores the response, revalidating an existing entry when possible
+   * @param config - The options for the AJAX request
+   * @param cacheOptions - The cache options of the request
+   * @param store - The store to cache the response in
+   * @param key - The cache key
+   * @param url - The request URL including query parameters
+   * @param entry - The expired entry, if there is one
+   * @returns A promise resolving with the fresh response
+   */
+  private async fetchIntoCache(
+    config: Options,
+    cacheOptions: CrabJsCacheOptions,
+    store: CrabJsCacheStore,
+    key: string,
+    url: string,
+    entry?: CrabJsCacheEntry
+  ): Promise<CrabJsResponse> {
+    const ttl = cacheOptions.ttl !== undefined ? cacheOptions.ttl : 60000;
+    const requestConfig: Options = { ...config };
+
+    const conditional = !!entry && cacheOptions.revalidate !== false && !!(entry.etag || entry.lastModified);
+    if (entry && conditional) {
+      requestConfig.headers = { ...config.headers };
+      if (entry.etag) requestConfig.headers['If-None-Match'] = entry.etag;
+      if (entry.lastModified) requestConfig.headers['If-Modified-Since'] = entry.lastModified;
+      const validateStatus = config.validateStatus || CrabJsAjax.isSuccessStatus;
+      requestConfig.validateStatus = status => status === 304 || validateStatus(status);
+    }
+
+    const response = await this.sendShared(requestConfig);
+    const cacheControl = response.headers['cache-control'] || '';
+
+    if (entry && response.status === 304) {
+      const refreshed: CrabJsCacheEntry = {
+        ...entry,
+        headers: { ...entry.headers, ...response.headers },
+        storedAt: Date.now(),
+        expiresAt: Date.now() + ttl
+      };
+      await CrabJsAjax.writeCache(store, key, refreshed);
+      return CrabJsAjax.responseFromCache(refreshed, config);
+    }
+
+    if (!/no-store/i.test(cacheControl)) {
+      await CrabJsAjax.writeCache(store, key, {
+        url,
+        data: response.data,
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        storedAt: Date.now(),
+        expiresAt: Date.now() + ttl,
+        etag: response.headers['etag'],
+        lastModified: response.headers['last-modified']
+      });
+    }
+    return { ...response, config, cached: false };
+  }
+
+  /**
+   * Stores a cache entry. A store that fails, such as one over its storage quota, only loses the entry
+   * @param store - The store
+   * @param key - The cache key
+   * @param entry - The entry
+   */
+  private static async writeCache(store: CrabJsCacheStore, key: string, entry: CrabJsCacheEntry): Promise<void> {
+    try {
+      await store.set(key, entry);
+    } catch (error) {
+      console.warn('Unable to cache response:', error);
+    }
+  }
+
+  /**
+   * Builds a response from a cache entry
+   * @param entry - The cache entry
+   * @param config - The options of the request being answered
+   * @returns The cached response
+   */
+  private static responseFromCache(entry: CrabJsCacheEntry, config: Options): CrabJsResponse {
+    return {
+      data: entry.data,
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: entry.headers,
+      config,
+      cached: true
+    };
+  }
+
+  /**
+   * Lets identical in-flight GET and HEAD requests share one underlying request. Only the adapter's
+   * response is shared: each caller retries and validates it with its own options. Requests tracking
+   * download progress aren't shared, since only one caller's callback could be called.
+   * Every attempt waits for its own slot in the concurrency queue, so retry delays don't hold one
+   * @param config - The options for the AJAX request
+   * @returns A promise resolving with the response
+   */
+  private sendShared(config: Options): Promise<CrabJsResponse> {
+    const method = (config.method || 'GET').toUpperCase();
+    if (config.dedupe === false || config.stream || config.onDownloadProgress || (method !== 'GET' && method !== 'HEAD')) {
+      return CrabJsAjax.sendWithRetry(config, () => this.sendQueued(config, () => CrabJsAjax.send(config)));
+    }
+    return CrabJsAjax.sendWithRetry(config, async () => CrabJsAjax.settle(config, await this.joinFlight(config)));
+  }
+
+  /**
+   * Joins the in-flight adapter request identical to this one, or starts it.
+   * The shared request is only cancelled once every caller sharing it has cancelled
+   * @param config - The options for the AJAX request
+   * @returns A promise resolving with the adapter's response
+   */
+  private joinFlight(config: Options): Promise<CrabJsAdapterResponse> {
+    const key = CrabJsAjax.dedupeKey(config);
+    let flight = CrabJsAjax.inFlight.get(key);
+    if (!flight) {
+      const controller = new AbortController();
+      const shared: Options = { ...config, signal: controller.signal };
+      const promise = this.sendQueued(shared, () => CrabJsAjax.transmit(shared));
+      const created: CrabJsInFlightRequest = { controller, promise, callers: 0 };
+      promise.then(() => CrabJsAjax.inFlight.delete(key), () => CrabJsAjax.inFlight.delete(key));
+      CrabJsAjax.inFlight.set(key, created);
+      flight = created;
+    }
+
+    const shared = flight;
+    shared.callers++;
+    return new Promise<CrabJsAdapterResponse>((resolve, reject) => {
+      const signal = config.signal;
+      let done = false;
+      const finish = () => {
+        done = true;
+        shared.callers--;
+        signal && signal.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        if (done) return;
+        finish();
+        if (shared.callers === 0) {
+          shared.controller.abort();
+        }
+        reject(new CrabJsAbortError(config));
+      };
+
+      if (signal && signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal && signal.addEventListener('abort', onAbort);
+
+      shared.promise.then(
+        raw => {
+          if (done) return;
+          finish();
+          resolve(raw);
+        },
+        error => {
+          if (done) return;
+          finish();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Runs a task once this instance's concurrency limit allows it
+   * @param config - The options for the AJAX request
+   * @param task - Sends the request
+   * @returns A promise resolving with the task's result
+   */
+  private sendQueued<T>(config: Options, task: () => Promise<T>): Promise<T> {
+    const concurrency = this.defaults.concurrency;
+    if (!concurrency) {
+      return task();
+    }
+
+    const url = CrabJsAjax.fullUrl(config);
+    const host = concurrency.perHost ? CrabJsAjax.hostOf(url) : '*';
+    let queue = this.queues.get(host);
+    if (!queue) {
+      queue = new CrabJsRequestQueue(concurrency.limit);
+      this.queues.set(host, queue);
+    }
+    queue.setLimit(concurrency.limit);
+
+    return queue.run(
+      { method: (config.method || 'GET').toUpperCase(), url, host, priority: config.priority || 'normal', queuedAt: Date.now() },
+      task,
+      config.signal,
+      () => new CrabJsAbortError(config)
+    );
+  }
+
+  /**
+   * Makes attempts at a request, retrying failed ones as the request's retry option allows
+   * @param config - The options for the AJAX request
+   * @param attempt - Makes one attempt
+   * @returns A promise resolving with the response of the first successful attempt
+   */
+  private static async sendWithRetry(config: Options, attempt: () => Promise<CrabJsResponse>): Promise<CrabJsResponse> {
+    const retry = CrabJsAjax.resolveRetryOptions(config.retry);
+    for (let count = 1; ; count++) {
+      retry.onAttempt && retry.onAttempt(count, config);
+      try {
+        return await attempt();
+      } catch (error) {
+        const failure = CrabJsAjax.toHttpError(error, config);
+        if (count >= retry.attempts || !CrabJsAjax.isRetryable(failure, count, retry)) {
+          throw failure;
+        }
+        const delay = CrabJsAjax.retryDelay(failure, count, retry);
+        retry.onRetry && retry.onRetry(failure, count, delay);
+        await CrabJsAjax.wait(delay, config);
+      }
+    }
+  }
+
+  /**
+   * Sends a request through the configured adapter and checks the result
+   * @param config - The options for the AJAX request
+   * @returns A promise resolving with the response, or rejecting with a CrabJsHttpError
+   */
+  private static async send(config: Options): Promise<CrabJsResponse> {
+    return CrabJsAjax.settle(config, await CrabJsAjax.transmit(config));
+  }
+
+  /**
+   * Sends a request through the configured adapter
+   * @param config - The options for the AJAX request
+   * @returns A promise resolving with the response as the adapter returned it, whatever its status
+   */
+  private static async transmit(config: Options): Promise<CrabJsAdapterResponse> {
+    if (!config.url) {
+      throw new CrabJsConfigError(config, 'URL is required for AJAX request');
+    }
+    if (config.signal && config.signal.aborted) {
+      throw new CrabJsAbortError(config);
+    }
+
+    let request: CrabJsAdapterRequest;
+    try {
+      request = CrabJsAjax.prepareRequest(config);
+    } catch (error) {
+      throw new CrabJsConfigError(config, 'Error processing request data', error as Error);
+    }
+
+    const adapter = config.adapter || CrabJsAjax.defaultAdapter;
+    return adapter.send(request);
+  }
+
+  /**
+   * Validates the status of an adapter's response and parses its body
+   * @param config - The options for the AJAX request
+   * @param raw - The response as the adapter returned it
+   * @returns A promise resolving with the response, or rejecting with a CrabJsHttpError
+   */
+  private static async settle(config: Options, raw: CrabJsAdapterResponse): Promise<CrabJsResponse> {
+    const response: CrabJsResponse = {
+      data: raw.body,
+      status: raw.status,
+      statusText: raw.statusText,
+      headers: raw.headers,
+      config
+    };
+
+    if (config.stream) {
+      return CrabJsAjax.streamResponse(config, response, raw.body);
+    }
+
+    const validateStatus = config.validateStatus || CrabJsAjax.isSuccessStatus;
+    if (!validateStatus(response.status)) {
+      // Error bodies are parsed when possible but kept as text otherwise
+      if (config.responseType === 'json' && typeof raw.body === 'string') {
+        try {
+          response.data = raw.body ? JSON.parse(raw.body) : null;
+        } catch (error) {
+          response.data = raw.body;
+        }
+      }
+      throw new CrabJsHttpStatusError(config, response);
+    }
+
+    if (config.responseType === 'json' && typeof raw.body === 'string') {
+      try {
+        response.data = raw.body ? JSON.parse(raw.body) : null;
+      } catch (error) {
+        throw new CrabJsParseError(config, response, error as Error);
+      }
+    }
+    return response;
+  }
+
+  /**
+   * Wraps a streamed body in a CrabJsResponseStream, reading it in full for error statuses
+   * @param config - The options for the AJAX request
+   * @param response - The response with the raw body
+   * @param body - A chunk reader, or the complete body from adapters that don't stream
+   * @returns The response with a CrabJsResponseStream as its data
+   */
+  private static async streamResponse(config: Options, response: CrabJsResponse, body: unknown): Promise<CrabJsResponse> {
+    const candidate = body as Partial<CrabJsChunkReader> | null | undefined;
+    const reader: CrabJsChunkReader = candidate && typeof candidate.read === 'function' && typeof candidate.cancel === 'function'
+      ? candidate as CrabJsChunkReader
+      : CrabJsChunkBuffer.of(typeof body === 'string' ? body : body === undefined || body === null ? '' : JSON.stringify(body));
+
+    const validateStatus = config.validateStatus || CrabJsAjax.isSuccessStatus;
+    if (!validateStatus(response.status)) {
+      let text = '';
+      for (let chunk = await reader.read(); chunk !== null; chunk = await reader.read()) {
+        text += chunk;
+      }
+      try {
+        response.data = text && config.responseType === 'json' ? JSON.parse(text) : text;
+      } catch (error) {
+        response.data = text;
+      }
+      throw new CrabJsHttpStatusError(config, response);
+    }
+
+    response.data = new CrabJsResponseStream(reader, config.stream as CrabJsStreamFormat, response);
+    return response;
+  }
+
+  /**
+   * Passes every record of a streamed response to the onChunk callback, waiting for each one
+   * @param response - The streamed response
+   * @param onChunk - The callback
+   * @returns A promise resolving with the response once the stream ends
+   */
+  private static async consumeStream(response: CrabJsResponse, onChunk: (record: unknown) => void | Promise<void>): Promise<CrabJsResponse> {
+    const stream = response.data as CrabJsResponseStream;
+    try {
+      for (let result = await stream.next(); !result.done; result = await stream.next()) {
+        await onChunk(result.value);
+      }
+    } catch (error) {
+      stream.cancel();
+      throw CrabJsAjax.toHttpError(error, response.config);
+    }
+    return response;
+  }
+
+  /**
+   * Turns request options into the URL, headers and body an adapter sends
+   * @param config - The options for the AJAX request
+   * @returns The request for the adapter
+   */
+  private static prepareRequest(config: Options): CrabJsAdapterRequest {
+    const headers: Record<string, string> = { ...config.headers };
+    const { body, contentType } = CrabJsAjax.encodeBody(config.data, config.contentType, config.arrayFormat);
+
+    // An explicit Content-Type header wins; FormData gets no type so the browser can add the multipart boundary
+    const hasContentType = Object.keys(headers).some(name => name.toLowerCase() === 'content-type');
+    if (contentType && !hasContentType) {
+      headers['Content-Type'] = contentType;
+    }
+
+    return {
+      url: CrabJsAjax.fullUrl(config),
+      method: (config.method || 'GET').toUpperCase(),
+      headers,
+      body,
+      timeout: config.timeout,
+      responseType: config.responseType,
+      signal: config.signal,
+      stream: !!config.stream,
+      config
+    };
+  }
+
+  /**
+   * Creates an empty set of interceptor managers
+   * @returns The interceptor managers
+   */
+  private static createInterceptors(): CrabJsInterceptors {
+    return {
+      request: new CrabJsInterceptorManager<CrabJsRequestInterceptor>(),
+      response: new CrabJsInterceptorManager<CrabJsResponseInterceptor>(),
+      error: new CrabJsInterceptorManager<CrabJsErrorInterceptor>()
+    };
+  }
+
+  /**
+   * Builds the key identical requests share while in flight
+   * @param config - The options for the AJAX request
+   * @returns The key
+   */
+  private static dedupeKey(config: Options): string {
+    const adapter = config.adapter || CrabJsAjax.defaultAdapter;
+    let adapterId = CrabJsAjax.adapterIds.get(adapter);
+    if (adapterId === undefined) {
+      adapterId = CrabJsAjax.nextAdapterId++;
+      CrabJsAjax.adapterIds.set(adapter, adapterId);
+    }
+    const headers = config.headers || {};
+    const headerList = Object.keys(headers).sort().map(name => `${name.toLowerCase()}:${headers[name]}`);
+    return [
+      adapterId, (config.method || 'GET').toUpperCase(), CrabJsAjax.fullUrl(config), config.responseType || '', config.timeout || 0, headerList.join('\n')
+    ].join(' ');
+  }
+
+  /**
+   * Gets the host of a URL, resolving relative URLs against the page
+   * @param url - The URL
+   * @returns The host, or an empty string if the URL can't be parsed
+   */
+  private static hostOf(url: string): string {
+    try {
+      return new URL(url, typeof location !== 'undefined' ? location.href : undefined).host;
+    } catch (error) {
+      return '';
+    }
+  }
+
+  /**
+   * Default status check: any 2xx status is a success
+   * @param status - The HTTP status code
+   * @returns True if the status is a success
+   */
+  private static isSuccessStatus(status: number): boolean {
+    return status >= 200 && status < 300;
+  }
+
+  /**
+   * Fills in the retry defaults for a request's retry option
+   * @param retry - The retry option of the request
+   * @returns The complete retry options
+   */
+  private static resolveRetryOptions(retry: Options['retry']): CrabJsResolvedRetryOptions {
+    if (!retry) {
+      return { ...CrabJsAjax.retryDefaults, attempts: 1 };
+    }
+    if (retry === true) {
+      return { ...CrabJsAjax.retryDefaults };
+    }
+    if (typeof retry === 'number') {
+      return { ...CrabJsAjax.retryDefaults, attempts: retry };
+    }
+    return { ...CrabJsAjax.retryDefaults, ...retry } as CrabJsResolvedRetryOptions;
+  }
+
+  /**
+   * Decides whether a failed attempt may be retried
+   * @param error - The error of the failed attempt
+   * @param attempt - The number of the failed attempt
+   * @param retry - The retry options
+   * @returns True if the request should be sent again
+   */
+  private static isRetryable(error: CrabJsHttpError, attempt: number, retry: CrabJsResolvedRetryOptions): boolean {
+    // Cancellation is never retried, whatever the policy says
+    if (error.config.signal && error.config.signal.aborted) return false;
+    if (retry.shouldRetry) return retry.shouldRetry(error, attempt);
+
+    const method = (error.config.method || 'GET').toUpperCase();
+    if (!retry.methods.some(allowed => allowed.toUpperCase() === method)) return false;
+
+    if (error.code === 'network' || error.code === 'timeout') return true;
+    return error.code === 'http' && retry.statuses.indexOf(error.status) !== -1;
+  }
+
+  /**
+   * Works out how long to wait before the next attempt
+   * @param error - The error of the failed attempt
+   * @param attempt - The number of the failed attempt
+   * @param retry - The retry options
+   * @returns The delay in milliseconds
+   */
+  private static retryDelay(error: CrabJsHttpError, attempt: number, retry: CrabJsResolvedRetryOptions): number {
+    if (retry.respectRetryAfter && error.response) {
+      const retryAfter = CrabJsAjax.parseRetryAfter(error.response.headers['retry-after']);
+      if (retryAfter !== null) {
+        return Math.min(retryAfter, retry.maxDelay);
+      }
+    }
+    const backoff = Math.min(retry.delay * Math.pow(retry.factor, attempt - 1), retry.maxDelay);
+    return retry.jitter ? backoff / 2 + Math.random() * backoff / 2 : backoff;
+  }
+
+  /**
+   * Parses a Retry-After header, given either in seconds or as an HTTP date
+   * @param value - The header value
+   * @returns The delay in milliseconds, or null if the header is missing or invalid
+   */
+  private static parseRetryAfter(value?: string): number | null {
+    if (!value) return null;
+    if (/^\d+$/.test(value.trim())) {
+      return parseInt(value, 10) * 1000;
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Waits before the next attempt, stopping early if the request is cancelled
+   * @param ms - The time to wait in milliseconds
+   * @param config - The options of the request
+   */
+  private static wait(ms: number, config: Options): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const signal = config.signal;
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new CrabJsAbortError(config));
+      };
+      const timer = setTimeout(() => {
+        signal && signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal && signal.addEventListener('abort', onAbort);
+    });
+  }
+
+  /**
+   * Checks whether an interceptor result is a response rather than request options
+   * @param value - The interceptor result
+   * @returns True if the value is a response
+   */
+  private static isResponse(value: unknown): value is CrabJsResponse {
+    return typeof value === 'object' && value !== null && 'status' in value && 'config' in value && 'data' in value;
+  }
+
+  /**
+   * Wraps anything thrown during a request, such as an interceptor failure, in a CrabJsHttpError
+   * @param error - The thrown value
+   * @param config - The options of the failed request
+   * @returns The error as a CrabJsHttpError
+   */
+  private static toHttpError(error: unknown, config: Options): CrabJsHttpError {
+    if (error instanceof CrabJsHttpError) return error;
+    const cause = error instanceof Error ? error : new Error(String(error));
+    return new CrabJsConfigError(config, cause.message || 'Unexpected error occurred', cause);
+  }
+
+  /**
+   * Encodes request data into a body the adapters can send natively
+   * @param data - The request data
+   * @param contentType - The content type requested by the caller
+   * @param arrayFormat - How arrays are written in form-encoded data
+   * @returns The body and the content type to send it with (null to let the browser choose)
+   */
+  private static encodeBody(data: unknown, contentType?: string, arrayFormat?: CrabJsArrayFormat): { body: XMLHttpRequestBodyInit | null; contentType: string | null } {
+    const type = (contentType || '').toLowerCase();
+
+    if (data === undefined || data === null) {
+      return { body: null, contentType: contentType || null };
+    }
+    if (typeof FormData !== 'undefined' && data instanceof FormData) {
+      return { body: data, contentType: null };
+    }
+    if (typeof URLSearchParams !== 'undefined' && data instanceof URLSearchParams) {
+      return { body: data.toString(), contentType: contentType || 'application/x-www-form-urlencoded;charset=UTF-8' };
+    }
+    if (typeof Blob !== 'undefined' && data instanceof Blob) {
+      return { body: data, contentType: contentType || data.type || 'application/octet-stream' };
+    }
+    if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+      return { body: data, contentType: contentType || 'application/octet-stream' };
+    }
+    if (typeof data === 'string' && type && type.indexOf('json') === -1) {
+      return { body: data, contentType: contentType || null };
+    }
+    if (type.indexOf('application/x-www-form-urlencoded') === 0) {
+      return { body: CrabJsAjax.encodeFormData(data, arrayFormat), contentType: contentType || null };
+    }
+    if (type.indexOf('multipart/form-data') === 0) {
+      return { body: CrabJsAjax.toFormData(data as Record<string, unknown>), contentType: null };
+    }
+    return { body: JSON.stringify(data), contentType: contentType || 'application/json;charset=UTF-8' };
+  }
+
+  /**
+   * Copies the fields of a plain object into a FormData
+   * @param data - The object to copy
+   * @returns The FormData
+   */
+  private static toFormData(data: Record<string, unknown>): FormData {
+    const formData = new FormData();
+    Object.keys(data).forEach(key => {
+      const field = data[key];
+      const values: unknown[] = Array.isArray(field) ? field : [field];
+      values.forEach(value => {
+        if (value === undefined || value === null) return;
+        if (value instanceof Blob) {
+          formData.append(key, value);
+        } else {
+          formData.append(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+        }
+      });
+    });
+    return formData;
+  }
+
+  /**
+   * Serializes parameters into a query string. Nested objects are written with
+   * brackets (a[b]=1), null and undefined values are skipped and dates are written as ISO strings
+   * @param params - The parameters to serialize
+   * @param arrayFormat - How arrays are written (default: 'repeat')
+   * @returns The query string, without a leading '?'
+   */
+  public static serializeParams(params: Record<string, unknown>, arrayFormat: CrabJsArrayFormat = 'repeat'): string {
+    const pairs: string[] = [];
+    // Brackets are left readable; every other reserved character is escaped
+    const encodeKey = (key: string) => encodeURIComponent(key).replace(/%5B/gi, '[').replace(/%5D/gi, ']');
+    const isScalar = (value: unknown) => value === null || value instanceof Date || typeof value !== 'object';
+    const toText = (value: unknown) => value instanceof Date ? value.toISOString() : String(value);
+
+    const add = (key: string, value: unknown) => {
+      if (value === undefined || value === null) return;
+
+      if (Array.isArray(value)) {
+        if (arrayFormat === 'comma' && value.every(isScalar)) {
+          const items = value.filter(item => item !== undefined && item !== null);
+          if (items.length) {
+            pairs.push(`${encodeKey(key)}=${items.map(item => encodeURIComponent(toText(item))).join(',')}`);
+          }
+          return;
+        }
+        value.forEach((item, index) => {
+          if (arrayFormat === 'brackets') {
+            add(`${key}[]`, item);
+          } else if ((arrayFormat === 'repeat' || arrayFormat === 'comma') && isScalar(item)) {
+            add(key, item);
+          } else {
+            add(`${key}[${index}]`, item);
+          }
+        });
+        return;
+      }
+
+      if (!isScalar(value)) {
+        const object = value as Record<string, unknown>;
+        Object.keys(object).forEach(name => add(`${key}[${name}]`, object[name]));
+        return;
+      }
+
+      pairs.push(`${encodeKey(key)}=${encodeURIComponent(toText(value))}`);
+    };
+
+    Object.keys(params).forEach(key => add(key, params[key]));
+    return pairs.join('&');
+  }
+
+  /**
+   * Gets the URL a request is sent to, with its base URL and query parameters applied
+   * @param config - The options for the AJAX request
+   * @returns The full request URL
+   */
+  private static fullUrl(config: Options): string {
+    return CrabJsAjax.buildUrlWithParams(CrabJsAjax.resolveUrl(config.url, config.baseURL), config.params, config.arrayFormat);
+  }
+
+  /**
+   * Prepends a base URL to a relative URL
+   * @param url - The request URL
+   * @param baseURL - The base URL
+   * @returns The combined URL, or the request URL if it is absolute or there is no base
+   */
+  private static resolveUrl(url: string, baseURL?: string): string {
+    if (!baseURL || /^([a-z][a-z\d+\-.]*:)?\/\//i.test(url)) return url;
+    if (!url) return baseURL;
+    return `${baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+  }
+
+  /**
+   * Builds a URL with query parameters, keeping any query string and fragment it already has
+   * @param url - The base URL
+   * @param params - The query parameters
+   * @param arrayFormat - How arrays are written
+   * @returns The URL with query parameters
+   */
+  private static buildUrlWithParams(url: string, params?: Record<string, unknown>, arrayFormat?: CrabJsArrayFormat): string {
+    try {
+      if (!params) return url;
+      const queryString = CrabJsAjax.serializeParams(params, arrayFormat);
+      if (!queryString) return url;
+
+      const hashIndex = url.indexOf('#');
+      const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+      const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+      const separator = base.indexOf('?') === -1 ? '?' : /[?&]$/.test(base) ? '' : '&';
+      return `${base}${separator}${queryString}${hash}`;
+    } catch (error) {
+      throw new Error(`Error building URL parameters: ${error}`);
+    }
+  }
+
+  /**
+   * Encodes data as application/x-www-form-urlencoded, using the same rules as query parameters
+   * @param data - The data to encode
+   * @param arrayFormat - How arrays are written
+   * @returns The encoded data string
+   */
+  private static encodeFormData(data: any, arrayFormat?: CrabJsArrayFormat): string {
+    try {
+      if (typeof data !== 'object' || data === null) {
+        throw new Error('Data must be an object');
+      }
+      return CrabJsAjax.serializeParams(data, arrayFormat);
+    } catch (error) {
+      throw new Error(`Error encoding form data: ${error}`);
+    }
+  }
+}
+
+
+
+
+
+/**
+ * Interface for Server-Sent Events stream options
+ */
+interface CrabJsStreamOptions {
+  /** Client whose baseURL, headers and params are applied (default: the default CrabJsAjax instance) */
+  client?: CrabJsAjax;
+  /** Extra headers (needs fetch streaming; EventSource can't send headers) */
+  headers?: Record<string, string>;
+  /** Query parameters to append to the URL */
+  params?: Record<string, unknown>;
+  /** Whether to send cookies on cross-origin streams (default: false) */
+  withCredentials?: boolean;
+  /** Whether to parse message data as JSON, falling back to the raw text (default: true) */
+  json?: boolean;
+  /** Event id to resume from on the first connection */
+  lastEventId?: string;
+  /** Reconnection after the stream drops: false to disable, or backoff options (default: unlimited attempts) */
+  reconnect?: boolean | CrabJsReconnectOptions;
+  /** How the stream is read (default: 'auto', which prefers fetch streaming) */
+  transport?: 'auto' | 'fetch' | 'eventsource';
+}
+
+/**
+ * Interface for reconnection backoff options
+ */
+interface CrabJsReconnectOptions {
+  /** Delay before the first reconnection in milliseconds (default: 1000) */
+  delay?: number;
+  /** Multiplier applied to the delay after each failed reconnection (default: 2) */
+  factor?: number;
+  /** Upper bound for a single delay in milliseconds (default: 30000) */
+  maxDelay?: number;
+  /** Whether to randomise delays (default: true) */
+  jitter?: boolean;
+  /** Maximum consecutive reconnection attempts (default: unlimited) */
+  attempts?: number;
+}
+
+/**
+ * Interface for a message received on an event stream
+ */
+interface CrabJsStreamMessage {
+  /** The event name ('message' when the server didn't name it) */
+  type: string;
+  /** The message data, parsed as JSON when possible and enabled */
+  data: unknown;
+  /** The raw message data */
+  raw: string;
+  /** The id of the last event received */
+  lastEventId: string;
+}
+
+/**
+ * Handler for an event stream event. Lifecycle events ('open', 'error', 'reconnect', 'close')
+ * receive event details instead of message data
+ */
+type CrabJsStreamHandler<T = unknown> = (data: T, message?: CrabJsStreamMessage) => void;
+
+/**
+ * Computes the delay before a reconnection attempt
+ * @param options - The backoff options
+ * @param attempt - The number of the attempt, starting at 1
+ * @param baseDelay - Delay to start from instead of options.delay
+ * @returns The delay in milliseconds
+ */
+function reconnectDelay(options: CrabJsReconnectOptions, attempt: number, baseDelay?: number): number {
+  const delay = baseDelay !== undefined ? baseDelay : options.delay !== undefined ? options.delay : 1000;
+  const backoff = Math.min(delay * Math.pow(options.factor || 2, attempt - 1), options.maxDelay || 30000);
+  return options.jitter === false ? backoff : backoff / 2 + Math.random() * backoff / 2;
+}
+
+/**
+ * Generates a random identifier, such as an idempotency key or upload id
+ * @returns A random UUID where available, otherwise a random string
+ */
+function randomId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Class to consume a Server-Sent Events stream with reconnection and Last-Event-ID resume
+ */
+class CrabJsEventStream<E = Record<string, unknown>> {
+  private static lifecycleEvents = ['open', 'error', 'reconnect', 'close'];
+
+  /** The id of the last event received, sent as Last-Event-ID when reconnecting */
+  public lastEventId: string;
+  /** The connection state */
+  public readyState: 'connecting' | 'open' | 'closed' = 'connecting';
+
+  private url: string;
+  private headers: Record<string, string>;
+  private options: CrabJsStreamOptions;
+  private reconnect: CrabJsReconnectOptions | null;
+  private handlers = new Map<string, Set<CrabJsStreamHandler>>();
+  private source: EventSource | null = null;
+  private sourceTypes = new Set<string>();
+  private controller: AbortController | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private attempt = 0;
+  private serverRetry?: number;
+
+  constructor(url: string, options: CrabJsStreamOptions = {}) {
+    const requestOptions: Options = { url, params: options.params };
+    const client = options.client;
+    const defaults = client ? client.defaults : CrabJsAjax.defaults;
+    this.url = client ? client.getUri(requestOptions) : CrabJsAjax.getUri(requestOptions);
+    this.headers = { ...defaults.headers, ...options.headers };
+    this.options = options;
+    this.lastEventId = options.lastEventId || '';
+    this.reconnect = options.reconnect === false ? null : options.reconnect === true || !options.reconnect ? {} : options.reconnect;
+    this.connect();
+  }
+
+  /**
+   * Adds a handler for a named event, 'message' for unnamed events, or a lifecycle event
+   * @param type - The event name
+   * @param handler - The handler
+   * @returns The current instance for chaining
+   */
+  public on<K extends string>(type: K, handler: CrabJsStreamHandler<K extends keyof E ? E[K] : unknown>): CrabJsEventStream<E> {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, new Set());
+    }
+    (this.handlers.get(type) as Set<CrabJsStreamHandler>).add(handler as CrabJsStreamHandler);
+    this.listenOnSource(type);
+    return this;
+  }
+
+  /**
+   * Removes a handler, every handler of an event, or every handler
+   * @param type - The event name (omit to remove everything)
+   * @param handler - The handler (omit to remove every handler of the event)
+   * @returns The current instance for chaining
+   */
+  public off<K extends string>(type?: K, handler?: CrabJsStreamHandler<K extends keyof E ? E[K] : unknown>): CrabJsEventStream<E> {
+    if (type === undefined) {
+      this.handlers.clear();
+    } else if (handler === undefined) {
+      this.handlers.delete(type);
+    } else {
+      const handlers = this.handlers.get(type);
+      handlers && handlers.delete(handler as CrabJsStreamHandler);
+    }
+    return this;
+  }
+
+  /**
+   * Closes the stream and stops reconnecting
+   */
+  public close(): void {
+    if (this.readyState === 'closed') return;
+    this.readyState = 'closed';
+    this.timer && clearTimeout(this.timer);
+    this.timer = null;
+    this.controller && this.controller.abort();
+    this.controller = null;
+    this.source && this.source.close();
+    this.source = null;
+    this.emit('close', { lastEventId: this.lastEventId });
+  }
+
+  /**
+   * Opens the connection with the configured transport
+   */
+  private connect(): void {
+    this.readyState = 'connecting';
+    const transport = this.options.transport || 'auto';
+    const canStream = typeof fetch !== 'undefined' && typeof ReadableStream !== 'undefined' && typeof TextDecoder !== 'undefined';
+    if (transport === 'fetch' || (transport === 'auto' && canStream) || typeof EventSource === 'undefined') {
+      this.connectFetch();
+    } else {
+      this.connectEventSource();
+    }
+  }
+
+  /**
+   * Reads the stream with fetch, which allows custom and Last-Event-ID headers
+   */
+  private async connectFetch(): Promise<void> {
+    const controller = new AbortController();
+    this.controller = controller;
+    const headers: Record<string, string> = { Accept: 'text/event-stream', ...this.headers };
+    if (this.lastEventId) {
+      headers['Last-Event-ID'] = this.lastEventId;
+    }
+    const config: Options = { url: this.url, method: 'GET', headers };
+
+    try {
+      const response = await fetch(this.url, {
+        headers,
+        signal: controller.signal,
+        cache: 'no-store',
+        credentials: this.options.withCredentials ? 'include' : 'same-origin'
+      });
+
+      // 204 No Content is the server's way of saying the stream is over
+      if (response.status === 204) {
+        this.close();
+        return;
+      }
+      if (!response.ok || !response.body) {
+        const error = new CrabJsHttpStatusError(config, {
+          data: null, status: response.status, statusText: response.statusText, headers: {}, config
+        });
+        const retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+        this.fail(error, retryable);
+        return;
+      }
+
+      this.opened();
+      await this.read(response.body.getReader());
+      this.fail(new CrabJsNetworkError(config, 'Stream ended'), true);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      this.fail(new CrabJsNetworkError(config, 'Network error', error as Error), true);
+    }
+  }
+
+  /**
+   * Parses the event stream format as chunks arrive
+   * @param reader - Reader of the response body
+   */
+  private async read(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let data: string[] = [];
+    let eventType = '';
+
+    const processLine = (line: string) => {
+      if (line === '') {
+        if (data.length) {
+          this.dispatch(eventType || 'message', data.join('\n'));
+        }
+        data = [];
+        eventType = '';
+        return;
+      }
+      if (line.charAt(0) === ':') return;
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? '' : line.slice(colon + 1);
+      if (value.charAt(0) === ' ') value = value.slice(1);
+
+      if (field === 'event') {
+        eventType = value;
+      } else if (field === 'data') {
+        data.push(value);
+      } else if (field === 'id' && value.indexOf('\0') === -1) {
+        this.lastEventId = value;
+      } else if (field === 'retry' && /^\d+$/.test(value)) {
+        this.serverRetry = parseInt(value, 10);
+      }
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      let match: RegExpExecArray | null;
+      while ((match = /\r\n|\r|\n/.exec(buffer)) !== null) {
+        // A trailing \r may be the first half of \r\n split across chunks
+        if (match[0] === '\r' && match.index === buffer.length - 1) break;
+        processLine(buffer.slice(0, match.index));
+        buffer = buffer.slice(match.index + match[0].length);
+      }
+    }
+  }
+
+  /**
+   * Reads the stream with the native EventSource, for platforms without fetch streaming.
+   * EventSource can't send headers, so the last event id is passed as a query parameter
+   */
+  private connectEventSource(): void {
+    const url = this.lastEventId
+      ? `${this.url}${this.url.indexOf('?') === -1 ? '?' : '&'}lastEventId=${encodeURIComponent(this.lastEventId)}`
+      : this.url;
+    const source = new EventSource(url, { withCredentials: !!this.options.withCredentials });
+    this.source = source;
+    this.sourceTypes.clear();
+
+    source.onopen = () => this.opened();
+    source.onerror = () => {
+      const config: Options = { url: this.url, method: 'GET' };
+      if (source.readyState === EventSource.CLOSED) {
+        this.fail(new CrabJsNetworkError(config, 'Stream closed'), true);
+      } else {
+        // The browser is already reconnecting on its own
+        this.emit('error', new CrabJsNetworkError(config, 'Stream interrupted'));
+      }
+    };
+    this.listenOnSource('message');
+    this.handlers.forEach((handlers, type) => this.listenOnSource(type));
+  }
+
+  /**
+   * Forwards a named event from the native EventSource, if one is in use
+   * @param type - The event name
+   */
+  private listenOnSource(type: string): void {
+    const source = this.source;
+    if (!source || this.sourceTypes.has(type) || CrabJsEventStream.lifecycleEvents.indexOf(type) !== -1) return;
+    this.sourceTypes.add(type);
+    source.addEventListener(type, (event: Event) => {
+      const message = event as MessageEvent;
+      if (message.lastEventId) {
+        this.lastEventId = message.lastEventId;
+      }
+      this.dispatch(type, String(message.data));
+    });
+  }
+
+  /**
+   * Marks the connection open. The backoff is only reset once an event arrives,
+   * so a server that accepts and then drops the connection still backs off
+   */
+  private opened(): void {
+    if (this.readyState === 'closed') return;
+    this.readyState = 'open';
+    this.emit('open', { url: this.url, lastEventId: this.lastEventId });
+  }
+
+  /**
+   * Reports a dropped connection and schedules a reconnection if allowed
+   * @param error - What went wrong
+   * @param retryable - Whether reconnecting could help
+   */
+  private fail(error: CrabJsHttpError, retryable: boolean): void {
+    if (this.readyState === 'closed') return;
+    this.emit('error', error);
+    this.controller = null;
+    this.source && this.source.close();
+    this.source = null;
+    // An error handler may have closed the stream
+    if (this.isClosed()) return;
+
+    const reconnect = this.reconnect;
+    if (!retryable || !reconnect || (reconnect.attempts !== undefined && this.attempt >= reconnect.attempts)) {
+      this.close();
+      return;
+    }
+
+    this.attempt++;
+    this.readyState = 'connecting';
+    const delay = reconnectDelay(reconnect, this.attempt, this.serverRetry);
+    this.emit('reconnect', { attempt: this.attempt, delay, lastEventId: this.lastEventId });
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (this.readyState !== 'closed') this.connect();
+    }, delay);
+  }
+
+  /**
+   * Whether the stream was closed, including by a handler that just ran
+   */
+  private isClosed(): boolean {
+    return this.readyState === 'closed';
+  }
+
+  /**
+   * Delivers a message to its handlers
+   * @param type - The event name
+   * @param raw - The raw message data
+   */
+  private dispatch(type: string, raw: string): void {
+    this.attempt = 0;
+    let data: unknown = raw;
+    if (this.options.json !== false) {
+      try {
+        data = JSON.parse(raw);
+      } catch (error) {
+        data = raw;
+      }
+    }
+    this.emit(type, data, { type, data, raw, lastEventId: this.lastEventId });
+  }
+
+  /**
+   * Calls the handlers of an event
+   * @param type - The event name
+   * @param data - The data passed to the handlers
+   * @param message - The message, for stream events
+   */
+  private emit(type: string, data: unknown, message?: CrabJsStreamMessage): void {
+    const handlers = this.handlers.get(type);
+    if (!handlers) return;
+    Array.from(handlers).forEach(handler => {
+      try {
+        handler(data, message);
+      } catch (error) {
+        console.error(`Error in ${type} stream handler:`, error);
+      }
+    });
+  }
+}
+
+/**
+ * Interface for WebSocket message codecs
+ */
+interface CrabJsSocketCodec {
+  /** Turns an outgoing message into socket data */
+  encode(message: unknown): string | ArrayBufferLike | Blob | ArrayBufferView;
+  /** Turns incoming socket data into a message */
+  decode(data: unknown): unknown;
+}
+
+/**
+ * Interface for WebSocket heartbeat options
+ */
+interface CrabJsHeartbeatOptions {
+  /** Time between heartbeats in milliseconds (default: 30000) */
+  interval?: number;
+  /** Time to wait for any message after a heartbeat before the connection is considered dead (default: 10000) */
+  timeout?: number;
+  /** The heartbeat message (default: { type: 'ping' }) */
+  message?: unknown;
+}
+
+/**
+ * Interface for WebSocket client options
+ */
+interface CrabJsSocketOptions {
+  /** Subprotocols to request */
+  protocols?: string | string[];
+  /** Message codec (default: JSON, passing through data that isn't JSON) */
+  codec?: CrabJsSocketCodec;
+  /** Reconnection after the socket drops: false to disable, or backoff options (default: unlimited attempts) */
+  reconnect?: boolean | CrabJsReconnectOptions;
+  /** Heartbeats detecting dead connections: false to disable (default: enabled) */
+  heartbeat?: boolean | CrabJsHeartbeatOptions;
+  /** Maximum number of messages kept while disconnected; the oldest are dropped first (default: 100) */
+  queueSize?: number;
+  /** Message field holding the channel a message belongs to (default: 'type') */
+  typeField?: string;
+  /** Message field correlating requests with their responses (default: 'id') */
+  idField?: string;
+  /** Default timeout for request() in milliseconds (default: 10000) */
+  requestTimeout?: number;
+}
+
+/**
+ * Handler for a socket event. Lifecycle events ('open', 'close', 'disconnect', 'error', 'reconnect')
+ * receive event details; 'message' and channel events receive decoded messages
+ */
+type CrabJsSocketHandler<T = unknown> = (data: T) => void;
+
+/**
+ * Interface for a pending request() call
+ */
+interface CrabJsSocketRequest {
+  resolve: (message: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Class to send and receive messages on one channel of a CrabJsSocket
+ */
+class CrabJsSocketChannel<T = unknown> {
+  private socket: CrabJsSocket<unknown>;
+  private name: string;
+
+  constructor(socket: CrabJsSocket<unknown>, name: string) {
+    this.socket = socket;
+    this.name = name;
+  }
+
+  /**
+   * Sends a message on the channel
+   * @param message - The message; objects get the channel name in the type field
+   * @returns The current instance for chaining
+   */
+  public send(message: unknown): CrabJsSocketChannel<T> {
+    this.socket.send(this.socket.envelope(this.name, message));
+    return this;
+  }
+
+  /**
+   * Sends a message on the channel and waits for the correlated response
+   * @param message - The message
+   * @param timeout - Time to wait for the response in milliseconds
+   * @returns A promise resolving with the response message
+   */
+  public request<R = unknown>(message: unknown, timeout?: number): Promise<R> {
+    return this.socket.request<R>(this.socket.envelope(this.name, message), timeout);
+  }
+
+  /**
+   * Adds a handler for messages on the channel
+   * @param handler - The handler
+   * @returns The current instance for chaining
+   */
+  public on(handler: CrabJsSocketHandler<T>): CrabJsSocketChannel<T> {
+    this.socket.on(this.name, handler as CrabJsSocketHandler);
+    return this;
+  }
+
+  /**
+   * Removes a handler, or every handler, for messages on the channel
+   * @param handler - The handler (omit to remove every handler)
+   * @returns The current instance for chaining
+   */
+  public off(handler?: CrabJsSocketHandler<T>): CrabJsSocketChannel<T> {
+    this.socket.off(this.name, handler as CrabJsSocketHandler | undefined);
+    return this;
+  }
+}
+
+/**
+ * WebSocket client with reconnection, heartbeats, an outbound queue and request/response correlation
+ */
+class CrabJsSocket<E = Record<string, unknown>> {
+  private static jsonCodec: CrabJsSocketCodec = {
+    encode: (message: unknown) => typeof message === 'string' ? message : JSON.stringify(message),
+    decode: (data: unknown) => {
+      if (typeof data !== 'string') return data;
+      try {
+        return JSON.parse(data);
+      } catch (error) {
+        return data;
+      }
+    }
+  };
+
+  private static lifecycleEvents = ['open', 'close', 'disconnect', 'error', 'reconnect'];
+
+  /** The connection state */
+  public readyState: 'connecting' | 'open' | 'closed' = 'connecting';
+
+  private url: string;
+  private options: CrabJsSocketOptions;
+  private codec: CrabJsSocketCodec;
+  private reconnect: CrabJsReconnectOptions | null;
+  private heartbeat: CrabJsHeartbeatOptions | null;
+  private ws: WebSocket | null = null;
+  private handlers = new Map<string, Set<CrabJsSocketHandler>>();
+  private queue: unknown[] = [];
+  private pending = new Map<string, CrabJsSocketRequest>();
+  private nextId = 1;
+  private attempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private deadlineTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(url: string, options: CrabJsSocketOptions = {}) {
+    this.url = CrabJsSocket.toSocketUrl(url);
+    this.options = options;
+    this.codec = options.codec || CrabJsSocket.jsonCodec;
+    this.reconnect = options.reconnect === false ? null : options.reconnect === true || !options.reconnect ? {} : options.reconnect;
+    this.heartbeat = options.heartbeat === false ? null : options.heartbeat === true || !options.heartbeat ? {} : options.heartbeat;
+    this.connect();
+  }
+
+  /**
+   * Adds a handler for a lifecycle event, 'message' for every message, or a channel name
+   * @param type - The event or channel name
+   * @param handler - The handler
+   * @returns The current instance for chaining
+   */
+  public on<K extends string>(type: K, handler: CrabJsSocketHandler<K extends keyof E ? E[K] : unknown>): CrabJsSocket<E> {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, new Set());
+    }
+    (this.handlers.get(type) as Set<CrabJsSocketHandler>).add(handler as CrabJsSocketHandler);
+    return this;
+  }
+
+  /**
+   * Removes a handler, every handler of an event, or every handler
+   * @param type - The event or channel name (omit to remove everything)
+   * @param handler - The handler (omit to remove every handler of the event)
+   * @returns The current instance for chaining
+   */
+  public off<K extends string>(type?: K, handler?: CrabJsSocketHandler<K extends keyof E ? E[K] : unknown>): CrabJsSocket<E> {
+    if (type === undefined) {
+      this.handlers.clear();
+    } else if (handler === undefined) {
+      this.handlers.delete(type);
+    } else {
+      const handlers = this.handlers.get(type);
+      handlers && handlers.delete(handler as CrabJsSocketHandler);
+    }
+    return this;
+  }
+
+  /**
+   * Gets a channel: messages whose type field holds the channel name
+   * @param name - The channel name
+   * @returns The channel
+   */
+  public channel<K extends string>(name: K): CrabJsSocketChannel<K extends keyof E ? E[K] : unknown> {
+    // The channel types its own messages, so it only needs the untyped socket
+    return new CrabJsSocketChannel(this as unknown as CrabJsSocket<unknown>, name);
+  }
+
+  /**
+   * Sends a message, or queues it until the socket is open
+   * @param message - The message, encoded with the codec
+   * @returns The current instance for chaining
+   */
+  public send(message: unknown): CrabJsSocket<E> {
+    if (this.readyState === 'closed') {
+      throw new Error('Cannot send on a closed socket');
+    }
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(this.codec.encode(message));
+    } else {
+      this.queue.push(message);
+      const limit = this.options.queueSize !== undefined ? this.options.queueSize : 100;
+      if (this.queue.length > limit) {
+        this.queue.splice(0, this.queue.length - limit);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Sends a message with a fresh id and waits for the message answering it
+   * @param message - The message; objects get the id in the id field
+   * @param timeout - Time to wait for the response in milliseconds
+   * @returns A promise resolving with the response message
+   */
+  public request<R = unknown>(message: unknown, timeout?: number): Promise<R> {
+    const idField = this.options.idField || 'id';
+    const id = String(this.nextId++);
+    const outgoing = typeof message === 'object' && message !== null ? { ...message, [idField]: id } : { [idField]: id, data: message };
+    const wait = timeout !== undefined ? timeout : this.options.requestTimeout || 10000;
+
+    return new Promise<R>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new CrabJsTimeoutError({ url: this.url, data: outgoing }, 'Socket request timed out'));
+      }, wait);
+      this.pending.set(id, { resolve: resolve as (message: unknown) => void, reject, timer });
+      try {
+        this.send(outgoing);
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Closes the socket and stops reconnecting. Pending requests are rejected
+   * @param code - The close code (default: 1000)
+   * @param reason - The close reason
+   */
+  public close(code = 1000, reason?: string): void {
+    if (this.readyState === 'closed') return;
+    this.readyState = 'closed';
+    this.clearTimers();
+    this.reconnectTimer && clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    if (this.ws) {
+      this.ws.close(code, reason);
+      this.ws = null;
+    }
+    this.queue = [];
+    this.rejectPending(new CrabJsAbortError({ url: this.url }, 'Socket closed'));
+    this.emit('close', { code, reason });
+  }
+
+  /**
+   * Wraps a message for a channel
+   * @param channel - The channel name
+   * @param message - The message
+   * @returns The message with the channel name in its type field
+   */
+  public envelope(channel: string, message: unknown): Record<string, unknown> {
+    const typeField = this.options.typeField || 'type';
+    return typeof message === 'object' && message !== null && !Array.isArray(message)
+      ? { ...message, [typeField]: channel }
+      : { [typeField]: channel, data: message };
+  }
+
+  /**
+   * Opens the connection
+   */
+  private connect(): void {
+    this.readyState = 'connecting';
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(this.url, this.options.protocols);
+    } catch (error) {
+      this.emit('error', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.ws = ws;
+
+    ws.onopen = () => {
+      this.readyState = 'open';
+      this.attempt = 0;
+      this.emit('open', { url: this.url });
+      const queued = this.queue;
+      this.queue = [];
+      queued.forEach(message => this.send(message));
+      this.startHeartbeat();
+    };
+
+    ws.onmessage = (event: MessageEvent) => {
+      this.alive();
+      let message: unknown;
+      try {
+        message = this.codec.decode(event.data);
+      } catch (error) {
+        this.emit('error', error);
+        return;
+      }
+      this.receive(message);
+    };
+
+    ws.onerror = (event: Event) => {
+      this.emit('error', event);
+    };
+
+    ws.onclose = (event: CloseEvent) => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.clearTimers();
+      if (this.readyState === 'closed') return;
+      // Responses to requests sent on the lost connection will never arrive
+      this.rejectPending(new CrabJsNetworkError({ url: this.url }, 'Socket disconnected'));
+      this.emit('disconnect', { code: event.code, reason: event.reason });
+      this.scheduleReconnect();
+    };
+  }
+
+  /**
+   * Rejects every request waiting for a response
+   * @param error - The rejection reason
+   */
+  private rejectPending(error: CrabJsHttpError): void {
+    this.pending.forEach((request, id) => {
+      clearTimeout(request.timer);
+      request.reject(error);
+      this.pending.delete(id);
+    });
+  }
+
+  /**
+   * Routes an incoming message to a pending request, its channel and the message handlers
+   * @param message - The decoded message
+   */
+  private receive(message: unknown): void {
+    if (typeof message === 'object' && message !== null) {
+      const fields = message as Record<string, unknown>;
+      const id = fields[this.options.idField || 'id'];
+      const request = id !== undefined ? this.pending.get(String(id)) : undefined;
+      if (request) {
+        clearTimeout(request.timer);
+        this.pending.delete(String(id));
+        request.resolve(message);
+        return;
+      }
+      const type = fields[this.options.typeField || 'type'];
+      if (typeof type === 'string' && type !== 'message' && CrabJsSocket.lifecycleEvents.indexOf(type) === -1) {
+        this.emit(type, message);
+      }
+    }
+    this.emit('message', message);
+  }
+
+  /**
+   * Schedules a reconnection with backoff, or closes the socket if reconnection is off or exhausted
+   */
+  private scheduleReconnect(): void {
+    // A disconnect or error handler may have closed the socket
+    if (this.readyState === 'closed') return;
+    const reconnect = this.reconnect;
+    if (!reconnect || (reconnect.attempts !== undefined && this.attempt >= reconnect.attempts)) {
+      this.close(1006, 'Connection lost');
+      return;
+    }
+    this.attempt++;
+    this.readyState = 'connecting';
+    const delay = reconnectDelay(reconnect, this.attempt);
+    this.emit('reconnect', { attempt: this.attempt, delay });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.readyState !== 'closed') this.connect();
+    }, delay);
+  }
+
+  /**
+   * Starts sending heartbeats on the open connection
+   */
+  private startHeartbeat(): void {
+    const heartbeat = this.heartbeat;
+    if (!heartbeat) return;
+    const interval = heartbeat.interval || 30000;
+    this.heartbeatTimer && clearTimeout(this.heartbeatTimer);
+    this.heartbeatTimer = setTimeout(() => {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+      this.ws.send(this.codec.encode(heartbeat.message !== undefined ? heartbeat.message : { type: 'ping' }));
+      // Any message arriving before the deadline proves the connection is alive
+      this.deadlineTimer = setTimeout(() => {
+        this.emit('error', new CrabJsTimeoutError({ url: this.url }, 'Heartbeat timed out'));
+        this.ws && this.ws.close(4000, 'Heartbeat timed out');
+      }, heartbeat.timeout || 10000);
+    }, interval);
+  }
+
+  /**
+   * Records that the connection is alive and restarts the heartbeat cycle
+   */
+  private alive(): void {
+    this.deadlineTimer && clearTimeout(this.deadlineTimer);
+    this.deadlineTimer = null;
+    this.startHeartbeat();
+  }
+
+  private clearTimers(): void {
+    this.heartbeatTimer && clearTimeout(this.heartbeatTimer);
+    this.deadlineTimer && clearTimeout(this.deadlineTimer);
+    this.heartbeatTimer = null;
+    this.deadlineTimer = null;
+  }
+
+  /**
+   * Calls the handlers of an event
+   * @param type - The event name
+   * @param data - The data passed to the handlers
+   */
+  private emit(type: string, data: unknown): void {
+    const handlers = this.handlers.get(type);
+    if (!handlers) return;
+    Array.from(handlers).forEach(handler => {
+      try {
+        handler(data);
+      } catch (error) {
+        console.error(`Error in ${type} socket handler:`, error);
+      }
+    });
+  }
+
+  /**
+   * Turns a page-relative or http(s) URL into a ws(s) URL
+   * @param url - The URL
+   * @returns The WebSocket URL
+   */
+  private static toSocketUrl(url: string): string {
+    if (/^wss?:\/\//i.test(url) || typeof location === 'undefined') return url;
+    const resolved = new URL(url, location.href);
+    resolved.protocol = resolved.protocol === 'https:' ? 'wss:' : 'ws:';
+    return resolved.toString();
+  }
+}
+
+/**
+ * Interface for an error in a GraphQL result
+ */
+interface CrabJsGraphQLErrorEntry {
+  message: string;
+  locations?: Array<{ line: number; column: number }>;
+  path?: Array<string | number>;
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Interface for the result of a GraphQL operation
+ */
+interface CrabJsGraphQLResult<T = unknown> {
+  /** The data, or null if none was resolved */
+  data: T | null;
+  /** Errors reported by the server (errorPolicy 'all' only) */
+  errors?: CrabJsGraphQLErrorEntry[];
+  /** Extensions reported by the server */
+  extensions?: Record<string, unknown>;
+  /** Whether the data was read from the normalized cache */
+  cached?: boolean;
+}
+
+/**
+ * What to do when a result has errors: reject with a CrabJsGraphQLError ('none'),
+ * resolve with data and errors ('all'), or resolve with the data alone ('ignore')
+ */
+type CrabJsGraphQLErrorPolicy = 'none' | 'all' | 'ignore';
+
+/**
+ * Where queries read from: the cache with network fallback ('cache-first'), always the
+ * network but still updating the cache ('network-only'), the cache alone ('cache-only'),
+ * or the network without touching the cache ('no-cache')
+ */
+type CrabJsGraphQLFetchPolicy = 'cache-first' | 'network-only' | 'cache-only' | 'no-cache';
+
+/**
+ * Interface for persisted query options
+ */
+interface CrabJsPersistedQueryOptions {
+  /** Computes the query hash (default: SHA-256 hex digest) */
+  hash?: (query: string) => string | Promise<string>;
+  /** Whether hashed queries are sent as GET requests so they can be cached by HTTP caches (default: false) */
+  useGET?: boolean;
+}
+
+/**
+ * Interface for GraphQL client options
+ */
+interface CrabJsGraphQLOptions {
+  /** Client sending the requests, with its base URL, interceptors and adapter (default: the default CrabJsAjax instance) */
+  client?: CrabJsAjax;
+  /** Headers sent with every operation */
+  headers?: Record<string, string>;
+  /** Whether results are kept in a normalized cache (default: false) */
+  cache?: boolean;
+  /** Computes the cache key of an object, or undefined to store it inline (default: `${__typename}:${id}`) */
+  dataIdFromObject?: (object: Record<string, unknown>) => string | undefined;
+  /** Sends query hashes instead of query text, falling back to the text when the server doesn't know the hash */
+  persistedQueries?: boolean | CrabJsPersistedQueryOptions;
+  /** Default error policy (default: 'none') */
+  errorPolicy?: CrabJsGraphQLErrorPolicy;
+  /** Default fetch policy for queries (default: 'cache-first') */
+  fetchPolicy?: CrabJsGraphQLFetchPolicy;
+}
+
+/**
+ * Interface for the options of a single GraphQL operation
+ */
+interface CrabJsGraphQLRequestOptions extends Pick<Options, 'headers' | 'signal' | 'timeout'> {
+  /** The operation to run (default: the first named operation in the document) */
+  operationName?: string;
+  /** Error policy for this operation */
+  errorPolicy?: CrabJsGraphQLErrorPolicy;
+  /** Fetch policy for this query */
+  fetchPolicy?: CrabJsGraphQLFetchPolicy;
+}
+
+/**
+ * Class to store GraphQL results normalized by object identity, so an object
+ * updated by one operation is updated in every cached result that contains it
+ */
+class CrabJsGraphQLCache {
+  private entities = new Map<string, Record<string, unknown>>();
+  private results = new Map<string, unknown>();
+  private dataId: (object: Record<string, unknown>) => string | undefined;
+
+  constructor(dataIdFromObject?: (object: Record<string, unknown>) => string | undefined) {
+    this.dataId = dataIdFromObject || (object => object.__typename && object.id !== undefined && object.id !== null
+      ? `${object.__typename}:${object.id}`
+      : undefined);
+  }
+
+  /**
+   * Reads a cached result
+   * @param key - The result key
+   * @returns The data, or undefined if it isn't cached or refers to evicted objects
+   */
+  public read(key: string): unknown {
+    if (!this.results.has(key)) return undefined;
+    const state = { missing: false, built: new Map<string, unknown>() };
+    const data = this.denormalize(this.results.get(key), state);
+    return state.missing ? undefined : data;
+  }
+
+  /**
+   * Stores the objects of a result, and the result itself when a key is given
+   * @param key - The result key, or null to only update objects
+   * @param data - The result data
+   */
+  public write(key: string | null, data: unknown): void {
+    const normalized = this.normalize(data);
+    key !== null && this.results.set(key, normalized);
+  }
+
+  /**
+   * Reads a cached object
+   * @param typename - The object's __typename
+   * @param id - The object's id
+   * @returns The object, or undefined if it isn't cached
+   */
+  public readObject<T = Record<string, unknown>>(typename: string, id: string | number): T | undefined {
+    const key = `${typename}:${id}`;
+    if (!this.entities.has(key)) return undefined;
+    return this.denormalize({ __ref: key }, { missing: false, built: new Map<string, unknown>() }) as T;
+  }
+
+  /**
+   * Removes an object, or every object of a type. Cached results referring to them become misses
+   * @param typename - The object's __typename
+   * @param id - The object's id (omit to remove every object of the type)
+   */
+  public evict(typename: string, id?: string | number): void {
+    if (id !== undefined) {
+      this.entities.delete(`${typename}:${id}`);
+      return;
+    }
+    Array.from(this.entities.keys())
+      .filter(key => key.indexOf(`${typename}:`) === 0)
+      .forEach(key => this.entities.delete(key));
+  }
+
+  /**
+   * Removes every object and result
+   */
+  public clear(): void {
+    this.entities.clear();
+    this.results.clear();
+  }
+
+  /**
+   * Replaces identifiable objects with references, merging their fields into the stored objects
+   */
+  private normalize(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(item => this.normalize(item));
+    if (!value || typeof value !== 'object') return value;
+
+    const object = value as Record<string, unknown>;
+    const normalized: Record<string, unknown> = {};
+    Object.keys(object).forEach(field => {
+      normalized[field] = this.normalize(object[field]);
+    });
+    const key = this.dataId(object);
+    if (key === undefined) return normalized;
+    this.entities.set(key, { ...this.entities.get(key), ...normalized });
+    return { __ref: key };
+  }
+
+  /**
+   * Resolves references, building each object once so cyclic references are shared
+   */
+  private denormalize(value: unknown, state: { missing: boolean; built: Map<string, unknown> }): unknown {
+    if (Array.isArray(value)) return value.map(item => this.denormalize(item, state));
+    if (!value || typeof value !== 'object') return value;
+
+    const fields = value as Record<string, unknown>;
+    const ref = fields.__ref;
+    if (typeof ref === 'string') {
+      const built = state.built.get(ref);
+      if (built) return built;
+      const entity = this.entities.get(ref);
+      if (!entity) {
+        state.missing = true;
+        return null;
+      }
+      const object: Record<string, unknown> = {};
+      state.built.set(ref, object);
+      Object.keys(entity).forEach(field => {
+        object[field] = this.denormalize(entity[field], state);
+      });
+      return object;
+    }
+
+    const object: Record<string, unknown> = {};
+    Object.keys(fields).forEach(field => {
+      object[field] = this.denormalize(fields[field], state);
+    });
+    return object;
+  }
+}
+
+/**
+ * GraphQL client sending operations through CrabJsAjax
+ */
+class CrabJsGraphQLClient {
+  /** The normalized cache of the client */
+  public readonly cache: CrabJsGraphQLCache;
+
+  private endpoint: string;
+  private options: CrabJsGraphQLOptions;
+  private hashes = new Map<string, string>();
+
+  constructor(endpoint: string, options: CrabJsGraphQLOptions = {}) {
+    this.endpoint = endpoint;
+    this.options = options;
+    this.cache = new CrabJsGraphQLCache(options.dataIdFromObject);
+  }
+
+  /**
+   * Runs a query, reading from and writing to the cache as the fetch policy allows
+   * @param query - The GraphQL document
+   * @param variables - The operation variables
+   * @param options - Options for this operation
+   * @returns A promise resolving with the result, or rejecting with a CrabJsHttpError
+   */
+  public async query<T = unknown>(query: string, variables?: Record<string, unknown>, options: CrabJsGraphQLRequestOptions = {}): Promise<CrabJsGraphQLResult<T>> {
+    const policy = options.fetchPolicy || this.options.fetchPolicy || 'cache-first';
+    const caching = !!this.options.cache && policy !== 'no-cache';
+    const operationName = options.operationName || CrabJsGraphQLClient.operationNameOf(query);
+    const key = `${operationName || ''}|${query}|${CrabJsGraphQLClient.stableStringify(variables || {})}`;
+
+    if (caching && (policy === 'cache-first' || policy === 'cache-only')) {
+      const cached = this.cache.read(key);
+      if (cached !== undefined || policy === 'cache-only') {
+        return { data: cached === undefined ? null : cached as T, cached: cached !== undefined };
+      }
+    }
+
+    const result = await this.execute<T>(query, variables, { ...options, operationName });
+    if (caching && result.data && !result.errors) {
+      this.cache.write(key, result.data);
+    }
+    return result;
+  }
+
+  /**
+   * Runs a mutation. Objects in its result update the cache
+   * @param mutation - The GraphQL document
+   * @param variables - The operation variables
+   * @param options - Options for this operation
+   * @returns A promise resolving with the result, or rejecting with a CrabJsHttpError
+   */
+  public async mutate<T = unknown>(mutation: string, variables?: Record<string, unknown>, options: CrabJsGraphQLRequestOptions = {}): Promise<CrabJsGraphQLResult<T>> {
+    const operationName = options.operationName || CrabJsGraphQLClient.operationNameOf(mutation);
+    const result = await this.execute<T>(mutation, variables, { ...options, operationName });
+    if (this.options.cache && result.data) {
+      this.cache.write(null, result.data);
+    }
+    return result;
+  }
+
+  /**
+   * Sends an operation, as a persisted query hash first when enabled, and applies the error policy
+   */
+  private async execute<T>(query: string, variables: Record<string, unknown> | undefined, options: CrabJsGraphQLRequestOptions): Promise<CrabJsGraphQLResult<T>> {
+    const payload: Record<string, unknown> = { query, variables, operationName: options.operationName };
+    const persisted = this.options.persistedQueries;
+    const hash = persisted ? await this.hashOf(query, persisted === true ? {} : persisted) : null;
+
+    let sent: { body: unknown; response: CrabJsResponse };
+    if (hash) {
+      const extensions = { persistedQuery: { version: 1, sha256Hash: hash } };
+      const useGET = persisted !== true && !!(persisted as CrabJsPersistedQueryOptions).useGET;
+      sent = await this.send({ ...payload, query: undefined, extensions }, options, useGET);
+      // The server doesn't know the hash yet: register it by sending the full query along with it
+      if (CrabJsGraphQLClient.isPersistedQueryMiss(sent.body)) {
+        sent = await this.send({ ...payload, extensions }, options, false);
+      }
+    } else {
+      sent = await this.send(payload, options, false);
+    }
+
+    const { response } = sent;
+    const body = CrabJsGraphQLClient.resultOf<T>(sent.body);
+    if (!body || (!('data' in body) && !Array.isArray(body.errors))) {
+      throw new CrabJsParseError(response.config, response, new Error('Response is not a GraphQL result'));
+    }
+
+    const result: CrabJsGraphQLResult<T> = { data: body.data === undefined ? null : body.data };
+    body.extensions && (result.extensions = body.extensions);
+    const errors: CrabJsGraphQLErrorEntry[] = Array.isArray(body.errors) ? body.errors : [];
+    if (errors.length) {
+      const policy = options.errorPolicy || this.options.errorPolicy || 'none';
+      if (policy === 'none') {
+        throw new CrabJsGraphQLError(response.config, response, errors, result.data);
+      }
+      if (policy === 'all') {
+        result.errors = errors;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Sends a GraphQL request. Error statuses carrying a GraphQL result are treated as results
+   */
+  private async send(payload: Record<string, unknown>, options: CrabJsGraphQLRequestOptions, useGET: boolean): Promise<{ body: unknown; response: CrabJsResponse }> {
+    const request: Options = {
+      url: this.endpoint,
+      method: useGET ? 'GET' : 'POST',
+      headers: { Accept: 'application/json', ...this.options.headers, ...options.headers },
+      responseType: 'json',
+      signal: options.signal,
+      timeout: options.timeout
+    };
+    if (useGET) {
+      request.params = Object.keys(payload).reduce((params: Record<string, unknown>, name) => {
+        const value = payload[name];
+        if (value !== undefined) {
+          params[name] = typeof value === 'object' ? JSON.stringify(value) : value;
+        }
+        return params;
+      }, {});
+    } else {
+      request.data = payload;
+      request.contentType = 'application/json';
+    }
+
+    try {
+      const client = this.options.client;
+      const response = await (client ? client.request(request) : CrabJsAjax.ajax(request));
+      return { body: response.data, response };
+    } catch (error) {
+      const body = error instanceof CrabJsHttpStatusError ? CrabJsGraphQLClient.resultOf(error.data) : null;
+      if (body && Array.isArray(body.errors)) {
+        return { body, response: (error as CrabJsHttpStatusError).response };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the hash of a query, or null when hashing isn't available
+   */
+  private async hashOf(query: string, persisted: CrabJsPersistedQueryOptions): Promise<string | null> {
+    const known = this.hashes.get(query);
+    if (known) return known;
+
+    let hash: string | null = null;
+    if (persisted.hash) {
+      hash = await persisted.hash(query);
+    } else if (typeof crypto !== 'undefined' && crypto.subtle && typeof TextEncoder !== 'undefined') {
+      const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(query));
+      hash = Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+    }
+    hash && this.hashes.set(query, hash);
+    return hash;
+  }
+
+  /**
+   * Gets a response body as a GraphQL result, or null when it isn't an object
+   */
+  private static resultOf<T = unknown>(body: unknown): Partial<CrabJsGraphQLResult<T>> | null {
+    return body && typeof body === 'object' ? body as Partial<CrabJsGraphQLResult<T>> : null;
+  }
+
+  /**
+   * Checks whether a result reports an unknown persisted query
+   */
+  private static isPersistedQueryMiss(body: unknown): boolean {
+    const result = CrabJsGraphQLClient.resultOf(body);
+    return !!result && Array.isArray(result.errors) && result.errors.some(error =>
+      error.message === 'PersistedQueryNotFound' || (!!error.extensions && error.extensions.code === 'PERSISTED_QUERY_NOT_FOUND'));
+  }
+
+  /**
+   * Finds the name of the first named operation in a document
+   */
+  private static operationNameOf(query: string): string | undefined {
+    const match = /\b(?:query|mutation|subscription)\s+([_A-Za-z][_0-9A-Za-z]*)/.exec(query);
+    return match ? match[1] : undefined;
+  }
+
+  /**
+   * Serializes a value with object keys sorted, so equal variables give equal cache keys
+   */
+  private static stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(item => CrabJsGraphQLClient.stableStringify(item)).join(',')}]`;
+    if (!value || typeof value !== 'object') return JSON.stringify(value === undefined ? null : value);
+    const object = value as Record<string, unknown>;
+    return `{${Object.keys(object).sort().filter(key => object[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${CrabJsGraphQLClient.stableStringify(object[key])}`).join(',')}}`;
+  }
+}
+
+/**
+ * Interface for authentication tokens
+ */
+interface CrabJsAuthTokens {
+  /** The token sent with requests */
+  accessToken: string;
+  /** The token used to get a new access token */
+  refreshToken?: string;
+  /** When the access token expires (timestamp in milliseconds) */
+  expiresAt?: number;
+}
+
+/**
+ * Interface for token storage backends
+ */
+interface CrabJsTokenStorage {
+  get(): CrabJsAuthTokens | null;
+  set(tokens: CrabJsAuthTokens | null): void;
+}
+
+/**
+ * Interface for CSRF token options
+ */
+interface CrabJsCsrfOptions {
+  /** Name of the meta tag holding the token (default: 'csrf-token') */
+  meta?: string;
+  /** Name of the cookie holding the token, read when there is no meta tag (default: 'XSRF-TOKEN') */
+  cookie?: string;
+  /** Header the token is sent in (default: 'X-CSRF-Token') */
+  header?: string;
+}
+
+/**
+ * Interface for CrabJsAuth options
+ */
+interface CrabJsAuthOptions {
+  /** Client whose interceptors handle authentication; 401 responses are retried through it (default: the global interceptors) */
+  client?: CrabJsAjax;
+  /** Gets new tokens, resolving with null when the session can't be renewed. Send its own request with auth: false */
+  refresh?: (tokens: CrabJsAuthTokens | null) => Promise<CrabJsAuthTokens | null>;
+  /** Where tokens are kept (default: 'memory') */
+  storage?: 'memory' | 'localStorage' | 'sessionStorage' | CrabJsTokenStorage;
+  /** Key tokens are stored under in localStorage and sessionStorage (default: 'crabjs-auth') */
+  storageKey?: string;
+  /** Header carrying the access token (default: 'Authorization') */
+  header?: string;
+  /** Scheme written before the access token (default: 'Bearer'; empty for none) */
+  scheme?: string;
+  /** Refreshes tokens this many milliseconds before they expire (default: 30000) */
+  expiryMargin?: number;
+  /** Decides which requests get the access token (default: same-origin requests) */
+  shouldAttach?: (config: Options) => boolean;
+  /** CSRF tokens sent with same-origin mutating requests: false to disable, or options (default: enabled) */
+  csrf?: boolean | CrabJsCsrfOptions;
+}
+
+/**
+ * Class to attach access tokens to requests, refresh them once when they are
+ * rejected, and send CSRF tokens with mutating requests
+ */
+class CrabJsAuth {
+  private options: CrabJsAuthOptions;
+  private storage: CrabJsTokenStorage;
+  private interceptors: CrabJsInterceptors;
+  private requestId: number;
+  private errorId: number;
+  private refreshing: Promise<CrabJsAuthTokens | null> | null = null;
+  private handlers = new Map<string, Set<(tokens: CrabJsAuthTokens | null) => void>>();
+
+  constructor(options: CrabJsAuthOptions = {}) {
+    this.options = options;
+    this.storage = CrabJsAuth.createStorage(options.storage, options.storageKey || 'crabjs-auth');
+    this.interceptors = options.client ? options.client.interceptors : CrabJsAjax.interceptors;
+    this.requestId = this.interceptors.request.use(config => this.prepare(config));
+    this.errorId = this.interceptors.error.use((error, client) => this.recover(error, client));
+  }
+
+  /**
+   * Gets the current tokens
+   * @returns The tokens, or null when signed out
+   */
+  public getTokens(): CrabJsAuthTokens | null {
+    return this.storage.get();
+  }
+
+  /**
+   * Replaces the current tokens, for example after signing in
+   * @param tokens - The new tokens, or null to sign out
+   */
+  public setTokens(tokens: CrabJsAuthTokens | null): void {
+    this.storage.set(tokens);
+    this.emit(tokens ? 'change' : 'logout', tokens);
+  }
+
+  /**
+   * Signs out by removing the tokens
+   */
+  public clear(): void {
+    this.setTokens(null);
+  }
+
+  /**
+   * Gets new tokens. Concurrent calls share one refresh
+   * @returns A promise resolving with the new tokens, or null if the session ended
+   */
+  public refresh(): Promise<CrabJsAuthTokens | null> {
+    const refresh = this.options.refresh;
+    if (!refresh) return Promise.resolve(null);
+    if (!this.refreshing) {
+      const done = () => { this.refreshing = null; };
+      this.refreshing = refresh(this.getTokens()).then(
+        tokens => {
+          done();
+          this.setTokens(tokens);
+          return tokens;
+        },
+        error => {
+          done();
+          this.setTokens(null);
+          throw error;
+        }
+      );
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Adds a handler called with the new tokens ('change') or when signed out ('logout')
+   * @param type - The event name
+   * @param handler - The handler
+   * @returns The current instance for chaining
+   */
+  public on(type: 'change' | 'logout', handler: (tokens: CrabJsAuthTokens | null) => void): CrabJsAuth {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, new Set());
+    }
+    (this.handlers.get(type) as Set<(tokens: CrabJsAuthTokens | null) => void>).add(handler);
+    return this;
+  }
+
+  /**
+   * Removes a handler, every handler of an event, or every handler
+   * @param type - The event name (omit to remove everything)
+   * @param handler - The handler (omit to remove every handler of the event)
+   * @returns The current instance for chaining
+   */
+  public off(type?: 'change' | 'logout', handler?: (tokens: CrabJsAuthTokens | null) => void): CrabJsAuth {
+    if (type === undefined) {
+      this.handlers.clear();
+    } else if (handler === undefined) {
+      this.handlers.delete(type);
+    } else {
+      const handlers = this.handlers.get(type);
+      handlers && handlers.delete(handler);
+    }
+    return this;
+  }
+
+  /**
+   * Removes the interceptors, leaving requests unauthenticated
+   */
+  public detach(): void {
+    this.interceptors.request.eject(this.requestId);
+    this.interceptors.error.eject(this.errorId);
+  }
+
+  /**
+   * Adds the access token and CSRF token to a request, waiting for a refresh in progress
+   * @param config - The options for the AJAX request
+   * @returns The options with authentication headers
+   */
+  private async prepare(config: Options): Promise<Options> {
+    if (config.auth === false) return config;
+    const headers = { ...config.headers };
+    const sameOrigin = CrabJsAuth.isSameOrigin(config);
+
+    if (this.options.shouldAttach ? this.options.shouldAttach(config) : sameOrigin) {
+      let tokens = this.refreshing ? await this.refreshing.catch(() => null) : this.getTokens();
+      const margin = this.options.expiryMargin !== undefined ? this.options.expiryMargin : 30000;
+      if (tokens && tokens.expiresAt !== undefined && Date.now() >= tokens.expiresAt - margin && this.options.refresh) {
+        tokens = await this.refresh().catch(() => null);
+      }
+      if (tokens) {
+        headers[this.options.header || 'Authorization'] = this.headerValue(tokens);
+      }
+    }
+
+    const csrf = this.options.csrf === undefined || this.options.csrf === true ? {} : this.options.csrf;
+    const method = (config.method || 'GET').toUpperCase();
+    if (csrf && sameOrigin && ['GET', 'HEAD', 'OPTIONS', 'TRACE'].indexOf(method) === -1) {
+      const name = csrf.header || 'X-CSRF-Token';
+      const token = CrabJsAuth.readCsrfToken(csrf);
+      const present = Object.keys(headers).some(header => header.toLowerCase() === name.toLowerCase());
+      if (token && !present) {
+        headers[name] = token;
+      }
+    }
+    return { ...config, headers };
+  }
+
+  /**
+   * Refreshes tokens after a 401 and retries the request once with the new access token
+   * @param error - The request error
+   * @param client - The client that made the request, which also sends the retry
+   * @returns The response of the retried request, or nothing to pass the error on
+   */
+  private async recover(error: CrabJsHttpError, client: CrabJsAjax): Promise<CrabJsResponse | void> {
+    const config = error.config;
+    if (error.code !== 'http' || error.status !== 401 || config.auth === false || !this.options.refresh) return;
+
+    const header = this.options.header || 'Authorization';
+    const sent = config.headers && config.headers[header];
+    if (!sent) return;
+
+    // Refresh only if the rejected token is still current; otherwise another request already did
+    const current = this.getTokens();
+    let tokens: CrabJsAuthTokens | null;
+    if (this.refreshing) {
+      tokens = await this.refreshing.catch(() => null);
+    } else if (current && this.headerValue(current) !== sent) {
+      tokens = current;
+    } else {
+      tokens = await this.refresh().catch(() => null);
+    }
+    if (!tokens) throw error;
+
+    const retry: Options = {
+      ...config,
+      auth: false,
+      headers: { ...config.headers, [header]: this.headerValue(tokens) },
+      success: undefined,
+      error: undefined,
+      onChunk: undefined,
+      offline: undefined
+    };
+    return client.request(retry);
+  }
+
+  /**
+   * Formats the access token header value
+   */
+  private headerValue(tokens: CrabJsAuthTokens): string {
+    const scheme = this.options.scheme !== undefined ? this.options.scheme : 'Bearer';
+    return scheme ? `${scheme} ${tokens.accessToken}` : tokens.accessToken;
+  }
+
+  /**
+   * Calls the handlers of an event
+   */
+  private emit(type: string, tokens: CrabJsAuthTokens | null): void {
+    const handlers = this.handlers.get(type);
+    if (!handlers) return;
+    Array.from(handlers).forEach(handler => {
+      try {
+        handler(tokens);
+      } catch (error) {
+        console.error(`Error in ${type} auth handler:`, error);
+      }
+    });
+  }
+
+  /**
+   * Creates the token storage for a storage option
+   */
+  private static createStorage(storage: CrabJsAuthOptions['storage'], key: string): CrabJsTokenStorage {
+    if (storage && typeof storage !== 'string') return storage;
+    if (storage === 'localStorage' || storage === 'sessionStorage') {
+      const area = () => storage === 'localStorage' ? window.localStorage : window.sessionStorage;
+      return {
+        get: () => {
+          try {
+            const raw = area().getItem(key);
+            return raw ? JSON.parse(raw) : null;
+          } catch (error) {
+            return null;
+          }
+        },
+        set: tokens => {
+          try {
+            tokens ? area().setItem(key, JSON.stringify(tokens)) : area().removeItem(key);
+          } catch (error) {
+            console.warn('Unable to store auth tokens:', error);
+          }
+        }
+      };
+    }
+    let current: CrabJsAuthTokens | null = null;
+    return {
+      get: () => current,
+      set: tokens => { current = tokens; }
+    };
+  }
+
+  /**
+   * Checks whether a request goes to the page's origin
+   */
+  private static isSameOrigin(config: Options): boolean {
+    const url = CrabJsAjax.getUri({ ...config, baseURL: config.baseURL || '' });
+    if (typeof location === 'undefined') return !/^([a-z][a-z\d+\-.]*:)?\/\//i.test(url);
+    try {
+      return new URL(url, location.href).origin === location.origin;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Reads the CSRF token from its meta tag or cookie
+   */
+  private static readCsrfToken(csrf: CrabJsCsrfOptions): string | null {
+    if (typeof document === 'undefined') return null;
+    const meta = document.querySelector(`meta[name="${csrf.meta || 'csrf-token'}"]`);
+    const content = meta && meta.getAttribute('content');
+    if (content) return content;
+
+    const name = csrf.cookie || 'XSRF-TOKEN';
+    const cookie = document.cookie.split(';').map(part => part.trim()).find(part => part.indexOf(`${name}=`) === 0);
+    return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : null;
+  }
+}
+
+/**
+ * A form field name and value, in document order
+ */
+type CrabJsFormEntry = [string, string | File];
+
+/**
+ * Interface for ajaxSubmit options. Request options apply to every submission
+ */
+interface CrabJsAjaxSubmitOptions extends CrabJsRequestOptions {
+  /** The URL to submit to (default: the form's action, or the page URL) */
+  url?: string;
+  /** The HTTP method (default: the form's method, or GET) */
+  method?: string;
+  /** How the body is encoded (default: 'multipart' for multipart forms and forms with files, otherwise 'urlencoded'). With 'json', forms with files are sent as 'multipart' */
+  encoding?: 'urlencoded' | 'multipart' | 'json';
+  /** Client the form is submitted through (default: the default CrabJsAjax instance) */
+  client?: CrabJsAjax;
+  /** Called before sending; returning false cancels the submission */
+  beforeSubmit?: (form: HTMLFormElement, entries: CrabJsFormEntry[]) => boolean | void;
+  /** Called with the request promise of each submission */
+  onSubmit?: (request: Promise<CrabJsResponse>, form: HTMLFormElement) => void;
+}
+
+/**
+ * Interface for load() options. Request options apply to the fetch
+ */
+interface CrabJsLoadOptions extends CrabJsRequestOptions {
+  /** Selector of the fragment to insert from the response (default: the whole body) */
+  selector?: string;
+  /** The HTTP method (default: GET) */
+  method?: string;
+  /** The request body */
+  data?: unknown;
+  /** Client the fragment is fetched through (default: the default CrabJsAjax instance) */
+  client?: CrabJsAjax;
+  /** Sanitizer for the fragment (default: CrabJsSanitizer.default) */
+  sanitizer?: CrabJsSanitizer;
+  /** Inserts the fragment without sanitizing it, for trusted servers. Scripts are still not run */
+  unsafeHtml?: boolean;
+  /** Class set on the elements while loading (default: 'crabjs-loading') */
+  loadingClass?: string;
+  /** Class set on the elements when loading fails (default: 'crabjs-error') */
+  errorClass?: string;
+  /** Called before the request is sent; returning false cancels the load */
+  beforeLoad?: (elements: HTMLElement[]) => boolean | void;
+  /** Called with the parsed fragment before it replaces an element's content; it may be modified */
+  beforeSwap?: (fragment: DocumentFragment, element: HTMLElement) => void;
+  /** Called after an element's content was replaced */
+  afterSwap?: (element: HTMLElement) => void;
+  /** Called when loading fails */
+  onError?: (error: CrabJsHttpError, elements: HTMLElement[]) => void;
+}
+
+/**
+ * A style value. Numbers get 'px' for properties that take lengths; null or '' removes the property
+ */
+type CrabJsCssValue = string | number | null;
+
+/**
+ * A style value, or a function computing one for each element from its current computed value
+ */
+type CrabJsCssSetter = CrabJsCssValue | ((value: string, index: number, element: HTMLElement) => CrabJsCssValue | undefined);
+
+/**
+ * A size, or a function computing one for each element from its current size
+ */
+type CrabJsDimensionSetter = string | number | ((size: number, index: number, element: HTMLElement) => string | number);
+
+/**
+ * Interface for coordinates of an element
+ */
+interface CrabJsCoordinates {
+  top: number;
+  left: number;
+}
+
+/**
+ * Content to insert: an HTML string, a node, a collection, or a list of them
+ */
+type CrabJsContent = string | Node | CrabJsElementCollection | ArrayLike<string | Node | CrabJsElementCollection>;
+
+/**
+ * Elements to insert into: a selector, an element, a collection, or a list of elements
+ */
+type CrabJsTarget = string | HTMLElement | CrabJsElementCollection | ArrayLike<HTMLElement>;
+
+/**
+ * Interface for on() options
+ */
+interface CrabJsListenerOptions {
+  /** Whether the listener runs in the capture phase (default: false) */
+  capture?: boolean;
+  /** Whether the listener promises not to call preventDefault() (default: true for scroll, wheel and touch events) */
+  passive?: boolean;
+  /** Whether the listener is removed after it runs once (default: false) */
+  once?: boolean;
+  /** Removes the listener when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Interface for trigger() options. Defaults follow the event type: custom events bubble and can be cancelled
+ */
+interface CrabJsTriggerOptions {
+  bubbles?: boolean;
+  cancelable?: boolean;
+  /** Whether the event crosses shadow DOM boundaries (default: false) */
+  composed?: boolean;
+}
+
+/**
+ * Interface for a listener added with on() or delegate()
+ */
+interface CrabJsListener {
+  type: string;
+  namespaces: string[];
+  callback: EventListener;
+  options: CrabJsListenerOptions;
+  /** Selector of the descendants a delegated listener responds to */
+  selector?: string;
+  /** The listeners added to the element: the event's own and, for mouse events, the matching touch event */
+  bindings: { type: string; listener: EventListener; options: AddEventListenerOptions }[];
+}
+
+/**
+ * Interface for an upload session on the server
+ */
+interface CrabJsUploadSession {
+  /** Identifies the upload to the server: the tus upload URL, or the chunked upload id */
+  token: string;
+  /** Bytes the server has confirmed, counted from the start of the file */
+  offset: number;
+}
+
+/**
+ * Interface for what an upload protocol can use while uploading a file
+ */
+interface CrabJsUploadContext {
+  /** The file being uploaded */
+  file: File;
+  /** The upload endpoint */
+  endpoint: string;
+  /** Metadata describing the file */
+  metadata: Record<string, string>;
+  /** Token of an upload started before for this file, if any */
+  resumeToken: string | null;
+  /** Saves a token for resuming this file later, even after a page reload */
+  saveResumeToken(token: string): void;
+  /** Sends a request through the uploader's client, with its headers, cancellation and upload progress */
+  request(options: Options): Promise<CrabJsResponse>;
+}
+
+/**
+ * Interface for the server protocol of an upload
+ */
+interface CrabJsUploadProtocol {
+  /** Whether chunks may be sent at the same time and out of order (default: false) */
+  parallel?: boolean;
+  /** Resumes the upload the server knows from the resume token, or creates a new one */
+  open(context: CrabJsUploadContext): Promise<CrabJsUploadSession>;
+  /** Sends a chunk starting at an offset. May resolve with the offset the server confirmed */
+  send(session: CrabJsUploadSession, chunk: Blob, offset: number, context: CrabJsUploadContext): Promise<number | void>;
+  /** Completes the upload once every chunk is sent, resolving with the upload result */
+  finish?(session: CrabJsUploadSession, context: CrabJsUploadContext): Promise<unknown>;
+  /** Discards the upload on the server when it is cancelled */
+  abort?(session: CrabJsUploadSession, context: CrabJsUploadContext): Promise<void>;
+}
+
+/**
+ * Interface for uploader options
+ */
+interface CrabJsUploadOptions {
+  /** The URL uploads are created at */
+  endpoint: string;
+  /** The server protocol: 'tus', 'chunked' (Content-Range requests), or a custom protocol (default: 'tus') */
+  protocol?: 'tus' | 'chunked' | CrabJsUploadProtocol;
+  /** Chunk size in bytes (default: 5 MB) */
+  chunkSize?: number;
+  /** Number of files uploaded at once (default: 2) */
+  concurrency?: number;
+  /** Number of chunks of a file sent at once, for protocols that allow it (default: 3) */
+  chunkConcurrency?: number;
+  /** Backoff for failed chunks; attempts counts retries per chunk (default: 3 attempts from 1 second) */
+  retry?: CrabJsReconnectOptions;
+  /** Whether uploads are resumed across page reloads using tokens saved in localStorage (default: true) */
+  resume?: boolean;
+  /** Headers sent with every upload request */
+  headers?: Record<string, string>;
+  /** Metadata sent with each file (default: its name and type) */
+  metadata?: (file: File) => Record<string, string>;
+  /** Client the requests are sent through (default: the default CrabJsAjax instance) */
+  client?: CrabJsAjax;
+}
+
+/**
+ * Interface for upload progress
+ */
+interface CrabJsUploadProgress {
+  /** Bytes uploaded */
+  loaded: number;
+  /** Total bytes */
+  total: number;
+  /** Percentage uploaded (0-100) */
+  percent: number;
+}
+
+/**
+ * Interface for the state of one file in an uploader
+ */
+interface CrabJsUploadFile extends CrabJsUploadProgress {
+  file: File;
+  status: 'pending' | 'uploading' | 'paused' | 'complete' | 'error' | 'cancelled';
+  /** The server session, once opened */
+  session?: CrabJsUploadSession;
+  /** The result of the protocol's finish step */
+  result?: unknown;
+  /** Why the upload failed */
+  error?: CrabJsHttpError;
+}
+
+/**
+ * Interface for the data passed to uploader event handlers
+ */
+interface CrabJsUploaderEvents {
+  progress: { file: CrabJsUploadFile; overall: CrabJsUploadProgress };
+  complete: CrabJsUploadFile;
+  error: CrabJsUploadFile;
+}
+
+/**
+ * Class to upload files in chunks with retries, resuming from the offsets the server confirms
+ */
+class CrabJsUploader {
+  /**
+   * Built-in upload protocols
+   */
+  public static protocols: Record<'tus' | 'chunked', CrabJsUploadProtocol> = {
+    // tus 1.0 core protocol: POST creates the upload, HEAD reads its offset, PATCH appends chunks in order
+    tus: {
+      async open(context) {
+        if (context.resumeToken) {
+          try {
+            const response = await context.request({ url: context.resumeToken, method: 'HEAD', headers: { 'Tus-Resumable': '1.0.0' } });
+            const offset = parseInt(response.headers['upload-offset'], 10);
+            if (!isNaN(offset)) return { token: context.resumeToken, offset };
+          } catch (error) {
+            // An upload the server no longer knows is started again
+            if (!(error instanceof CrabJsHttpError) || error.code !== 'http' || [403, 404, 410].indexOf(error.status) === -1) throw error;
+          }
+        }
+        const metadata = Object.keys(context.metadata)
+          .map(key => `${key} ${CrabJsUploader.base64(context.metadata[key])}`)
+          .join(',');
+        const response = await context.request({
+          url: context.endpoint,
+          method: 'POST',
+          headers: { 'Tus-Resumable': '1.0.0', 'Upload-Length': String(context.file.size), 'Upload-Metadata': metadata }
+        });
+        if (!response.headers.location) {
+          throw new CrabJsParseError(response.config, response, new Error('Upload response has no Location header'));
+        }
+        const token = CrabJsUploader.resolveLocation(response.headers.location, context.endpoint);
+        context.saveResumeToken(token);
+        return { token, offset: 0 };
+      },
+      async send(session, chunk, offset, context) {
+        const response = await context.request({
+          url: session.token,
+          method: 'PATCH',
+          data: chunk,
+          contentType: 'application/offset+octet-stream',
+          headers: { 'Tus-Resumable': '1.0.0', 'Upload-Offset': String(offset) }
+        });
+        const confirmed = parseInt(response.headers['upload-offset'], 10);
+        return isNaN(confirmed) ? undefined : confirmed;
+      },
+      async abort(session, context) {
+        await context.request({ url: session.token, method: 'DELETE', headers: { 'Tus-Resumable': '1.0.0' } }).catch(() => undefined);
+      }
+    },
+    // Chunks are PUT to the endpoint with Upload-Id and Content-Range headers; HEAD answers the confirmed Upload-Offset
+    chunked: {
+      parallel: true,
+      async open(context) {
+        const token = context.resumeToken || randomId();
+        let offset = 0;
+        if (context.resumeToken) {
+          try {
+            const response = await context.request({ url: context.endpoint, method: 'HEAD', headers: { 'Upload-Id': token } });
+            offset = parseInt(response.headers['upload-offset'], 10) || 0;
+          } catch (error) {
+            if (!(error instanceof CrabJsHttpError) || error.code !== 'http' || error.status !== 404) throw error;
+          }
+        }
+        context.saveResumeToken(token);
+        return { token, offset };
+      },
+      async send(session, chunk, offset, context) {
+        await context.request({
+          url: context.endpoint,
+          method: 'PUT',
+          data: chunk,
+          contentType: 'application/octet-stream',
+          headers: { 'Upload-Id': session.token, 'Content-Range': `bytes ${offset}-${offset + chunk.size - 1}/${context.file.size}` }
+        });
+      }
+    }
+  };
+
+  /** The files of the uploader and their progress */
+  public readonly files: CrabJsUploadFile[];
+  /** The state of the uploader */
+  public status: 'idle' | 'uploading' | 'paused' | 'done' | 'cancelled' = 'idle';
+
+  private options: CrabJsUploadOptions;
+  private protocol: CrabJsUploadProtocol;
+  private controllers = new Map<CrabJsUploadFile, AbortController>();
+  private confirmed = new Map<CrabJsUploadFile, number>();
+  private inFlight = new Map<CrabJsUploadFile, Map<number, number>>();
+  private handlers = new Map<string, Set<(data: unknown) => void>>();
+  private resumed: { promise: Promise<void>; resolve: () => void } | null = null;
+  private running: Promise<CrabJsUploadFile[]> | null = null;
+
+  constructor(files: File | File[] | FileList, options: CrabJsUploadOptions) {
+    const list = files instanceof File ? [files] : Array.from(files);
+    this.files = list.map(file => ({ file, status: 'pending' as const, loaded: 0, total: file.size, percent: file.size ? 0 : 100 }));
+    this.options = options;
+    this.protocol = !options.protocol || typeof options.protocol === 'string'
+      ? CrabJsUploader.protocols[options.protocol || 'tus']
+      : options.protocol;
+  }
+
+  /**
+   * Adds a handler for an uploader event:
+   * - 'progress': receives { file, overall } as uploads advance
+   * - 'complete': a file finished uploading; receives its state
+   * - 'error': a file failed; receives its state
+   * @param type - The event name
+   * @param handler - The handler
+   * @returns The current instance for chaining
+   */
+  public on<K extends keyof CrabJsUploaderEvents>(type: K, handler: (data: CrabJsUploaderEvents[K]) => void): CrabJsUploader {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, new Set());
+    }
+    (this.handlers.get(type) as Set<(data: unknown) => void>).add(handler as (data: unknown) => void);
+    return this;
+  }
+
+  /**
+   * Removes a handler, every handler of an event, or every handler
+   * @param type - The event name (omit to remove everything)
+   * @param handler - The handler (omit to remove every handler of the event)
+   * @returns The current instance for chaining
+   */
+  public off<K extends keyof CrabJsUploaderEvents>(type?: K, handler?: (data: CrabJsUploaderEvents[K]) => void): CrabJsUploader {
+    if (type === undefined) {
+      this.handlers.clear();
+    } else if (handler === undefined) {
+      this.handlers.delete(type);
+    } else {
+      const handlers = this.handlers.get(type);
+      handlers && handlers.delete(handler as (data: unknown) => void);
+    }
+    return this;
+  }
+
+  /**
+   * Starts uploading. Calling it again returns the same promise
+   * @returns A promise resolving with the file states once every file completed or failed,
+   * or rejecting with a CrabJsAbortError when cancelled
+   */
+  public start(): Promise<CrabJsUploadFile[]> {
+    if (!this.running) {
+      this.status = 'uploading';
+      this.running = this.run();
+    }
+    return this.running;
+  }
+
+  /**
+   * Pauses uploading. Chunks in flight are abandoned and sent again on resume
+   */
+  public pause(): void {
+    if (this.status !== 'uploading') return;
+    this.status = 'paused';
+    let resolve = () => undefined as void;
+    const promise = new Promise<void>(done => { resolve = done; });
+    this.resumed = { promise, resolve };
+    this.files.forEach(state => {
+      if (state.status === 'uploading') state.status = 'paused';
+    });
+    this.controllers.forEach(controller => controller.abort());
+  }
+
+  /**
+   * Resumes uploading from the offsets the server confirmed
+   */
+  public resume(): void {
+    if (this.status !== 'paused') return;
+    this.status = 'uploading';
+    const resumed = this.resumed;
+    this.resumed = null;
+    resumed && resumed.resolve();
+  }
+
+  /**
+   * Cancels every unfinished upload and discards it on the server where the protocol allows
+   */
+  public cancel(): void {
+    if (this.status === 'done' || this.status === 'cancelled') return;
+    const wasPaused = this.status === 'paused';
+    this.status = 'cancelled';
+    this.controllers.forEach(controller => controller.abort());
+    this.files.forEach(state => {
+      if (state.status === 'complete' || state.status === 'error') return;
+      state.status = 'cancelled';
+      const session = state.session;
+      if (session && this.protocol.abort) {
+        this.protocol.abort(session, this.context(state, new AbortController().signal)).catch(() => undefined);
+      }
+      this.forgetResumeToken(state.file);
+    });
+    // Wake paused uploads so they can finish as cancelled
+    if (wasPaused && this.resumed) {
+      this.resumed.resolve();
+      this.resumed = null;
+    }
+  }
+
+  /**
+   * The progress of all files together
+   */
+  public get progress(): CrabJsUploadProgress {
+    const loaded = this.files.reduce((sum, state) => sum + state.loaded, 0);
+    const total = this.files.reduce((sum, state) => sum + state.total, 0);
+    return { loaded, total, percent: total ? Math.min(100, loaded / total * 100) : 100 };
+  }
+
+  /**
+   * Uploads the files with the configured concurrency
+   */
+  private async run(): Promise<CrabJsUploadFile[]> {
+    const queue = this.files.slice();
+    const worker = async () => {
+      for (let state = queue.shift(); state; state = queue.shift()) {
+        await this.uploadFile(state);
+      }
+    };
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < Math.max(1, this.options.concurrency || 2); i++) {
+      workers.push(worker());
+    }
+    await Promise.all(workers);
+
+    if (this.status === 'cancelled') {
+      throw new CrabJsAbortError({ url: this.options.endpoint }, 'Upload cancelled');
+    }
+    this.status = 'done';
+    return this.files;
+  }
+
+  /**
+   * Whether uploading was paused or cancelled, which abandons requests in flight
+   */
+  private isStopped(): boolean {
+    return this.status === 'paused' || this.status === 'cancelled';
+  }
+
+  /**
+   * Uploads one file, waiting while the uploader is paused
+   */
+  private async uploadFile(state: CrabJsUploadFile): Promise<void> {
+    for (;;) {
+      if (this.resumed) await this.resumed.promise;
+      if (this.status === 'cancelled') return;
+
+      const controller = new AbortController();
+      this.controllers.set(state, controller);
+      state.status = 'uploading';
+      try {
+        await this.transfer(state, controller);
+        state.status = 'complete';
+        this.setLoaded(state, state.total);
+        this.forgetResumeToken(state.file);
+        this.emit('complete', state);
+        return;
+      } catch (error) {
+        if (this.isStopped()) continue;
+        state.status = 'error';
+        state.error = error instanceof CrabJsHttpError ? error : new CrabJsNetworkError({ url: this.options.endpoint }, 'Upload failed', error as Error);
+        this.emit('error', state);
+        return;
+      } finally {
+        this.controllers.delete(state);
+        this.inFlight.delete(state);
+      }
+    }
+  }
+
+  /**
+   * Opens the server session and sends the chunks the server doesn't have yet
+   */
+  private async transfer(state: CrabJsUploadFile, controller: AbortController): Promise<void> {
+    const signal = controller.signal;
+    const context = this.context(state, signal);
+    const session = await this.withRetry(() => this.protocol.open(context), signal);
+    state.session = session;
+    this.setLoaded(state, session.offset);
+
+    const size = state.file.size;
+    const chunkSize = Math.max(1, this.options.chunkSize || 5 * 1024 * 1024);
+
+    if (this.protocol.parallel) {
+      const starts: number[] = [];
+      for (let start = session.offset; start < size; start += chunkSize) {
+        starts.push(start);
+      }
+      let confirmed = session.offset;
+      let failed = false;
+      let failure: unknown;
+      const worker = async () => {
+        for (let start = starts.shift(); start !== undefined && !failed; start = starts.shift()) {
+          const offset = start;
+          const chunk = state.file.slice(offset, Math.min(offset + chunkSize, size));
+          try {
+            await this.withRetry(() => this.protocol.send(session, chunk, offset, this.context(state, signal, offset)), signal);
+          } catch (error) {
+            // The first failure stops the file: chunks in flight are abandoned and no more are sent
+            if (!failed) {
+              failed = true;
+              failure = error;
+              controller.abort();
+            }
+            return;
+          }
+          confirmed += chunk.size;
+          this.setLoaded(state, confirmed, offset);
+        }
+      };
+      const workers: Promise<void>[] = [];
+      for (let i = 0; i < Math.max(1, this.options.chunkConcurrency || 3); i++) {
+        workers.push(worker());
+      }
+      await Promise.all(workers);
+      if (failed) throw failure;
+    } else {
+      let offset = session.offset;
+      let attempt = 0;
+      while (offset < size) {
+        const chunk = state.file.slice(offset, Math.min(offset + chunkSize, size));
+        try {
+          const start = offset;
+          const confirmed = await this.protocol.send(session, chunk, start, this.context(state, signal, start));
+          offset = typeof confirmed === 'number' ? confirmed : start + chunk.size;
+          session.offset = offset;
+          this.setLoaded(state, offset, start);
+          attempt = 0;
+        } catch (error) {
+          attempt = await this.backoff(error, attempt, signal);
+          // Part of the chunk may have arrived, so ask the server where to continue
+          const reopened = await this.withRetry(() => this.protocol.open(this.context(state, signal)), signal);
+          session.offset = reopened.offset;
+          offset = reopened.offset;
+          this.setLoaded(state, offset);
+        }
+      }
+    }
+
+    if (this.protocol.finish) {
+      const finish = this.protocol.finish;
+      state.result = await this.withRetry(() => finish.call(this.protocol, session, context), signal);
+    }
+  }
+
+  /**
+   * Runs a step, retrying it with backoff while it fails with a retryable error
+   */
+  private async withRetry<T>(step: () => Promise<T>, signal: AbortSignal): Promise<T> {
+    for (let attempt = 0; ;) {
+      try {
+        return await step();
+      } catch (error) {
+        attempt = await this.backoff(error, attempt, signal);
+      }
+    }
+  }
+
+  /**
+   * Waits before retrying a failed step, or rethrows the error if it can't be retried
+   * @returns The number of the retry
+   */
+  private async backoff(error: unknown, attempt: number, signal: AbortSignal): Promise<number> {
+    const retry = this.options.retry || {};
+    const attempts = retry.attempts !== undefined ? retry.attempts : 3;
+    const retryable = error instanceof CrabJsHttpError && (error.code === 'network' || error.code === 'timeout'
+      || (error.code === 'http' && CrabJsAjax.retryDefaults.statuses.indexOf(error.status) !== -1));
+    if (signal.aborted || !retryable || attempt >= attempts) throw error;
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(error);
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, reconnectDelay(retry, attempt + 1));
+      signal.addEventListener('abort', onAbort);
+    });
+    return attempt + 1;
+  }
+
+  /**
+   * Creates the context a protocol uses for a file, reporting the upload progress of the chunk at an offset
+   */
+  private context(state: CrabJsUploadFile, signal: AbortSignal, chunkOffset?: number): CrabJsUploadContext {
+    const file = state.file;
+    const storageKey = this.options.resume === false ? null : CrabJsUploader.resumeKey(this.options.endpoint, file);
+    return {
+      file,
+      endpoint: this.options.endpoint,
+      metadata: this.options.metadata ? this.options.metadata(file) : { filename: file.name, filetype: file.type || 'application/octet-stream' },
+      resumeToken: state.session ? state.session.token : storageKey ? CrabJsUploader.readStorage(storageKey) : null,
+      saveResumeToken: (token) => {
+        storageKey && CrabJsUploader.writeStorage(storageKey, token);
+      },
+      request: (options) => {
+        const request: Options = {
+          ...options,
+          headers: { ...this.options.headers, ...options.headers },
+          signal,
+          retry: false,
+          dedupe: false
+        };
+        if (chunkOffset !== undefined) {
+          request.onUploadProgress = progress => this.setInFlight(state, chunkOffset, progress.loaded);
+        }
+        const client = this.options.client;
+        return client ? client.request(request) : CrabJsAjax.ajax(request);
+      }
+    };
+  }
+
+  /**
+   * Records bytes the server confirmed, dropping the in-flight count of the chunk that carried them
+   */
+  private setLoaded(state: CrabJsUploadFile, confirmed: number, chunkOffset?: number): void {
+    const inFlight = this.inFlight.get(state);
+    if (inFlight) {
+      chunkOffset === undefined ? inFlight.clear() : inFlight.delete(chunkOffset);
+    }
+    this.confirmed.set(state, confirmed);
+    this.report(state);
+  }
+
+  /**
+   * Records the bytes of a chunk sent so far
+   */
+  private setInFlight(state: CrabJsUploadFile, chunkOffset: number, loaded: number): void {
+    if (!this.inFlight.has(state)) {
+      this.inFlight.set(state, new Map<number, number>());
+    }
+    (this.inFlight.get(state) as Map<number, number>).set(chunkOffset, loaded);
+    this.report(state);
+  }
+
+  /**
+   * Updates a file's progress from its confirmed and in-flight bytes, and emits a progress event
+   */
+  private report(state: CrabJsUploadFile): void {
+    if (state.status === 'error' || state.status === 'cancelled') return;
+    const inFlight = this.inFlight.get(state);
+    const sending = inFlight ? Array.from(inFlight.values()).reduce((sum, bytes) => sum + bytes, 0) : 0;
+    state.loaded = Math.min(state.total, (this.confirmed.get(state) || 0) + sending);
+    state.percent = state.total ? Math.min(100, state.loaded / state.total * 100) : 100;
+    this.emit('progress', { file: state, overall: this.progress });
+  }
+
+  /**
+   * Calls the handlers of an event
+   */
+  private emit<K extends keyof CrabJsUploaderEvents>(type: K, data: CrabJsUploaderEvents[K]): void {
+    const handlers = this.handlers.get(type);
+    if (!handlers) return;
+    Array.from(handlers).forEach(handler => {
+      try {
+        handler(data);
+      } catch (error) {
+        console.error(`Error in ${type} upload handler:`, error);
+      }
+    });
+  }
+
+  private forgetResumeToken(file: File): void {
+    if (this.options.resume === false) return;
+    try {
+      localStorage.removeItem(CrabJsUploader.resumeKey(this.options.endpoint, file));
+    } catch (error) {
+      // Storage may be unavailable; there is nothing to forget then
+    }
+  }
+
+  private static resumeKey(endpoint: string, file: File): string {
+    return `crabjs-upload:${endpoint}:${file.name}:${file.size}:${file.lastModified}`;
+  }
+
+  private static readStorage(key: string): string | null {
+    try {
+      return typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private static writeStorage(key: string, value: string): void {
+    try {
+      typeof localStorage !== 'undefined' && localStorage.setItem(key, value);
+    } catch (error) {
+      console.warn('Unable to save upload resume token:', error);
+    }
+  }
+
+  /**
+   * Encodes text as base64, supporting any Unicode text
+   */
+  private static base64(text: string): string {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary);
+  }
+
+  /**
+   * Resolves a Location header against the endpoint it was returned from
+   */
+  private static resolveLocation(location: string, endpoint: string): string {
+    try {
+      const base = typeof window !== 'undefined' && window.location ? window.location.href : undefined;
+      return new URL(location, base ? new URL(endpoint, base) : endpoint).toString();
+    } catch (error) {
+      return location;
+    }
+  }
+}
+
+/**
+ * Interface for sanitizer options. Each option replaces the default list
+ */
+interface CrabJsSanitizerOptions {
+  /** Tags that are kept. Other tags are removed but their content is kept, except for scripts, styles and embedded content */
+  allowedTags?: string[];
+  /** Attributes that are kept, by tag; '*' lists attributes allowed on every tag */
+  allowedAttributes?: Record<string, string[]>;
+  /** URL schemes allowed in links and sources. Relative URLs are always allowed */
+  allowedSchemes?: string[];
+  /** Whether data-* and aria-* attributes are kept (default: true) */
+  allowDataAttributes?: boolean;
+}
+
+/**
+ * Minimal shape of a Trusted Types policy
+ */
+interface CrabJsTrustedTypePolicy {
+  createHTML(input: string): unknown;
+}
+
+/**
+ * Class to remove scripts, event handlers and unsafe URLs from HTML using an allowlist
+ */
+class CrabJsSanitizer {
+  /**
+   * The default allowlists
+   */
+  public static readonly defaults: Required<CrabJsSanitizerOptions> = {
+    allowedTags: [
+      'a', 'abbr', 'address', 'article', 'aside', 'audio', 'b', 'bdi', 'bdo', 'blockquote', 'br', 'caption', 'cite',
+      'code', 'col', 'colgroup', 'dd', 'del', 'details', 'dfn', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'footer',
+      'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'i', 'img', 'ins', 'kbd', 'li', 'main', 'mark', 'nav', 'ol', 'p',
+      'picture', 'pre', 'q', 's', 'samp', 'section', 'small', 'source', 'span', 'strong', 'sub', 'summary', 'sup', 'table',
+      'tbody', 'td', 'tfoot', 'th', 'thead', 'time', 'tr', 'track', 'u', 'ul', 'var', 'video', 'wbr'
+    ],
+    allowedAttributes: {
+      '*': ['class', 'dir', 'hidden', 'id', 'lang', 'role', 'title'],
+      a: ['href', 'name', 'rel', 'target'],
+      audio: ['controls', 'loop', 'muted', 'src'],
+      blockquote: ['cite'],
+      col: ['span'],
+      colgroup: ['span'],
+      del: ['cite', 'datetime'],
+      details: ['open'],
+      img: ['alt', 'height', 'loading', 'src', 'width'],
+      ins: ['cite', 'datetime'],
+      li: ['value'],
+      ol: ['reversed', 'start', 'type'],
+      q: ['cite'],
+      source: ['media', 'src', 'type'],
+      td: ['colspan', 'headers', 'rowspan'],
+      th: ['colspan', 'headers', 'rowspan', 'scope'],
+      time: ['datetime'],
+      track: ['default', 'kind', 'label', 'src', 'srclang'],
+      video: ['controls', 'height', 'loop', 'muted', 'poster', 'src', 'width']
+    },
+    allowedSchemes: ['http', 'https', 'mailto', 'tel'],
+    allowDataAttributes: true
+  };
+
+  /**
+   * The sanitizer used by html(), append() and the other insertion methods, and load()
+   */
+  public static default = new CrabJsSanitizer();
+
+  /**
+   * Name of the Trusted Types policy that sanitizes HTML with CrabJsSanitizer.default
+   */
+  public static policyName = 'crabjs';
+
+  /**
+   * Name of the Trusted Types policy that passes HTML through unchanged. It is kept private, and only
+   * created the first time unsafeHtml() is used
+   */
+  public static unsafePolicyName = 'crabjs-unsafe';
+
+  /** Disallowed tags removed together with their content */
+  private static dropped = new Set([
+    'base', 'embed', 'frame', 'frameset', 'head', 'iframe', 'link', 'math', 'meta', 'noembed', 'noframes', 'noscript',
+    'object', 'script', 'select', 'style', 'svg', 'template', 'textarea', 'title', 'xmp'
+  ]);
+
+  /** Attributes holding URLs */
+  private static urlAttributes = new Set(['action', 'background', 'cite', 'formaction', 'href', 'poster', 'src', 'xlink:href']);
+
+  /** The policies once created; null where Trusted Types are unsupported or the policy couldn't be created */
+  private static policy: CrabJsTrustedTypePolicy | null | undefined;
+  private static unsafePolicy: CrabJsTrustedTypePolicy | null | undefined;
+
+  /** Set while parseDocument() runs, so the sanitizing policy passes through the HTML it is about to sanitize */
+  private static parsing = false;
+
+  private tags: Set<string>;
+  private attributes: Record<string, Set<string>> = {};
+  private schemes: Set<string>;
+  private allowDataAttributes: boolean;
+
+  constructor(options: CrabJsSanitizerOptions = {}) {
+    const settings = { ...CrabJsSanitizer.defaults, ...options };
+    this.tags = new Set(settings.allowedTags.map(tag => tag.toLowerCase()));
+    Object.keys(settings.allowedAttributes).forEach(tag => {
+      this.attributes[tag.toLowerCase()] = new Set(settings.allowedAttributes[tag].map(name => name.toLowerCase()));
+    });
+    this.schemes = new Set(settings.allowedSchemes.map(scheme => scheme.toLowerCase()));
+    this.allowDataAttributes = settings.allowDataAttributes;
+  }
+
+  /**
+   * Sanitizes an HTML string
+   * @param html - The untrusted HTML
+   * @returns The sanitized HTML
+   */
+  public sanitize(html: string): string {
+    const container = document.createElement('div');
+    container.appendChild(this.parse(html));
+    return container.innerHTML;
+  }
+
+  /**
+   * Parses HTML into sanitized nodes, without running scripts or loading resources
+   * @param html - The untrusted HTML
+   * @returns A fragment holding the sanitized nodes
+   */
+  public parse(html: string): DocumentFragment {
+    const source = CrabJsSanitizer.parseDocument(html);
+    this.clean(source.body);
+    const fragment = document.createDocumentFragment();
+    Array.from(source.body.childNodes).forEach(node => fragment.appendChild(document.importNode(node, true)));
+    return fragment;
+  }
+
+  /**
+   * Sanitizes the descendants of a node in place
+   * @param root - The node to clean, such as the body of a parsed document
+   */
+  public clean(root: ParentNode): void {
+    Array.from(root.childNodes).forEach(node => {
+      if (node.nodeType === Node.TEXT_NODE) return;
+      if (node.nodeType !== Node.ELEMENT_NODE) {
+        root.removeChild(node);
+        return;
+      }
+      const element = node as Element;
+      const tag = element.localName;
+      if (!this.tags.has(tag) || element.namespaceURI !== 'http://www.w3.org/1999/xhtml') {
+        if (!CrabJsSanitizer.dropped.has(tag) && element.namespaceURI === 'http://www.w3.org/1999/xhtml') {
+          // Unknown tags are unwrapped, keeping their (sanitized) content
+          this.clean(element);
+          while (element.firstChild) {
+            root.insertBefore(element.firstChild, element);
+          }
+        }
+        root.removeChild(element);
+        return;
+      }
+      this.cleanAttributes(element);
+      this.clean(element);
+    });
+  }
+
+  /**
+   * Parses HTML into an inert document: scripts don't run and resources don't load. The HTML is not sanitized
+   * @param html - The HTML
+   * @returns The parsed document
+   */
+  public static parseDocument(html: string): Document {
+    const policy = CrabJsSanitizer.getPolicy();
+    let input: unknown = html;
+    if (policy) {
+      CrabJsSanitizer.parsing = true;
+      try {
+        input = policy.createHTML(html);
+      } finally {
+        CrabJsSanitizer.parsing = false;
+      }
+    }
+    return new DOMParser().parseFromString(input as string, 'text/html');
+  }
+
+  /**
+   * Sanitizes HTML with CrabJsSanitizer.default for Trusted Types sinks, through the 'crabjs' policy
+   * when the browser supports Trusted Types
+   * @param html - The untrusted HTML
+   * @returns The sanitized HTML as a TrustedHTML value, or as a string where Trusted Types are not supported
+   */
+  public static trusted(html: string): unknown {
+    const policy = CrabJsSanitizer.getPolicy();
+    return policy ? policy.createHTML(html) : CrabJsSanitizer.default.sanitize(html);
+  }
+
+  /**
+   * Sets the HTML content of an element without sanitizing it. Only use it with trusted HTML
+   * @param element - The element
+   * @param html - The HTML
+   */
+  public static unsafeInnerHtml(element: Element, html: string): void {
+    if (CrabJsSanitizer.unsafePolicy === undefined) {
+      CrabJsSanitizer.unsafePolicy = CrabJsSanitizer.createPolicy(CrabJsSanitizer.unsafePolicyName, input => input);
+    }
+    const unsafe = CrabJsSanitizer.unsafePolicy;
+    element.innerHTML = (unsafe ? unsafe.createHTML(html) : html) as string;
+  }
+
+  /**
+   * Gets the sanitizing policy, creating it on first use
+   */
+  private static getPolicy(): CrabJsTrustedTypePolicy | null {
+    if (CrabJsSanitizer.policy === undefined) {
+      CrabJsSanitizer.policy = CrabJsSanitizer.createPolicy(CrabJsSanitizer.policyName, input =>
+        CrabJsSanitizer.parsing ? input : CrabJsSanitizer.default.sanitize(input));
+    }
+    return CrabJsSanitizer.policy;
+  }
+
+  /**
+   * Creates a Trusted Types policy where the browser supports them
+   * @returns The policy, or null when Trusted Types are unsupported or the policy can't be created
+   */
+  private static createPolicy(name: string, createHTML: (input: string) => string): CrabJsTrustedTypePolicy | null {
+    const trustedTypes = typeof window !== 'undefined'
+      ? (window as unknown as { trustedTypes?: { createPolicy(name: string, rules: CrabJsTrustedTypePolicy): CrabJsTrustedTypePolicy } }).trustedTypes
+      : undefined;
+    if (!trustedTypes) return null;
+    try {
+      return trustedTypes.createPolicy(name, { createHTML });
+    } catch (error) {
+      // The CSP doesn't allow the name, or another copy of CrabJS already created it; HTML is then handled as strings
+      console.warn(`Unable to create the ${name} Trusted Types policy:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Removes attributes that aren't allowed, event handlers and URLs with unsafe schemes
+   */
+  private cleanAttributes(element: Element): void {
+    const tag = element.localName;
+    Array.from(element.attributes).forEach(attribute => {
+      const name = attribute.name.toLowerCase();
+      const allowed = !name.startsWith('on') && (
+        (this.attributes['*'] && this.attributes['*'].has(name))
+        || (this.attributes[tag] && this.attributes[tag].has(name))
+        || (this.allowDataAttributes && /^(data|aria)-[\w.:-]+$/.test(name))
+      );
+      if (!allowed || (CrabJsSanitizer.urlAttributes.has(name) && !this.isSafeUrl(attribute.value))) {
+        element.removeAttribute(attribute.name);
+      }
+    });
+    // Pages opened from links can't reach back into this one
+    if (tag === 'a' && element.hasAttribute('target')) {
+      element.setAttribute('rel', 'noopener noreferrer');
+    }
+  }
+
+  private isSafeUrl(url: string): boolean {
+    // Browsers ignore whitespace and control characters in schemes, so "java\tscript:" is javascript:
+    const stripped = Array.from(url).filter(char => {
+      const code = char.charCodeAt(0);
+      return code > 32 && (code < 127 || code > 159);
+    }).join('');
+    const scheme = /^([a-z][a-z\d+.-]*):/i.exec(stripped);
+    return !scheme || this.schemes.has(scheme[1].toLowerCase());
+  }
+}
+
+// Base class must be defined before it's extended
+ class CrabJsElementCollection implements CrabJsAnimation {
+  /**
+   * Cancels the load in progress for an element, so the latest load wins
+   */
+  private static loads = new WeakMap<HTMLElement, AbortController>();
+
+  /**
+   * Listeners added with on() and delegate(), by element
+   */
+  private static listeners = new WeakMap<HTMLElement, CrabJsListener[]>();
+
+  /**
+   * Namespaces of events dispatched by trigger(), limiting which listeners run
+   */
+  private static eventNamespaces = new WeakMap<Event, string[]>();
+
+  private elements: HTMLElement[];
+  private animation:CrabJsElementCollectionAnimation;
+
+  constructor(elements: HTMLElement[]) {
+    this.elements = elements;
+    this.animation=new CrabJsElementCollectionAnimation(this);
+  }
+
+  /**
+   * Applies a function to each element in the collection
+   * @param callback - The function to apply to each element
+   * @returns The current instance for chaining
+   */
+  public each(callback: (element: HTMLElement, index: number) => void): CrabJsElementCollection {
+    try {
+      this.elements.forEach((element, index) => callback(element, index));
+    } catch (error) {
+      console.error('Error in each method:', error);
+    }
+    return this;
+  }
+
+  /**
+   * Gets the parent elements of each element in the collection
+   * @returns A new CrabJsElementCollection containing the parent elements
+   */
+  public parent(): CrabJsElementCollection {
+    const parents = Array.from(this.elements)
+      .map(element => element.parentElement)
+      .filter((parent): parent is HTMLElement => parent !== null);
+    return new CrabJsElementCollection(parents);
+  }
+
+  /**
+   * Gets parent elements until a matching selector is found
+   * @param selector - The CSS selector to stop at
+   * @returns A new CrabJsElementCollection containing the parent elements
+   */
+  public parentUntil(selector: string): CrabJsElementCollection {
+    const parents: HTMLElement[] = [];
+    const maxDepth = 1000; // Prevent infinite loops
+    
+    this.elements.forEach(element => {
+      let depth = 0;
+      let parent = element.parentElement;
+      while (parent && !parent.matches(selector) && depth < maxDepth) {
+        parents.push(parent);
+        parent = parent.parentElement;
+        depth++;
+      }
+      if (depth >= maxDepth) {
+        console.warn('Maximum ancestor depth reached in parentUntil');
+      }
+    });
+    return new CrabJsElementCollection(parents);
+  }
+
+  /**
+   * Gets all child elements of each element in the collection
+   * @returns A new CrabJsElementCollection containing all child elements
+   */
+  public children(): CrabJsElementCollection {
+    const children = Array.from(this.elements)
+      .reduce((acc: HTMLElement[], element) => {
+        const childElements = Array.from(element.children)
+          .filter((child): child is HTMLElement => child instanceof HTMLElement);
+        return acc.concat(childElements);
+      }, []);
+    return new CrabJsElementCollection(children);
+  }
+
+  /**
+   * Gets child elements until a matching selector is found
+   * @param selector - The CSS selector to stop at
+   * @returns A new CrabJsElementCollection containing the child elements
+   */
+  public childrenUntil(selector: string): CrabJsElementCollection {
+    const children: HTMLElement[] = [];
+    const maxChildren = 10000; // Prevent excessive memory usage
+    let totalChildren = 0;
+
+    this.elements.forEach(element => {
+      Array.from(element.children).some(child => {
+        if (totalChildren >= maxChildren) {
+          console.warn('Maximum children limit reached in childrenUntil');
+          return true;
+        }
+        if (child instanceof HTMLElement && !child.matches(selector)) {
+          children.push(child);
+          totalChildren++;
+        }
+        return false;
+      });
+    });
+    return new CrabJsElementCollection(children);
+  }
+
+  /**
+   * Gets the next sibling element of each element in the collection
+   * @returns A new CrabJsElementCollection containing the next siblings
+   */
+  public next(): CrabJsElementCollection {
+    const nextSiblings = Array.from(this.elements)
+      .map(element => {
+        let sibling = element.nextSibling;
+        let depth = 0;
+        const maxDepth = 100; // Prevent infinite loops
+        
+        while (sibling && !(sibling instanceof HTMLElement) && depth < maxDepth) {
+          sibling = sibling.nextSibling;
+          depth++;
+        }
+        return sibling instanceof HTMLElement ? sibling : null;
+      })
+      .filter((sibling): sibling is HTMLElement => sibling !== null);
+    return new CrabJsElementCollection(nextSiblings);
+  }
+
+  /**
+   * Gets next sibling elements until a matching selector is found
+   * @param selector - The CSS selector to stop at
+   * @returns A new CrabJsElementCollection containing the next siblings
+   */
+  public nextUntil(selector: string): CrabJsElementCollection {
+    const siblings: HTMLElement[] = [];
+    const maxSiblings = 1000; // Prevent excessive memory usage
+    
+    this.elements.forEach(element => {
+      let sibling = element.nextSibling;
+      let count = 0;
+      
+      while (sibling && count < maxSiblings) {
+        if (sibling instanceof HTMLElement) {
+          if (sibling.matches(selector)) break;
+          siblings.push(sibling);
+          count++;
+        }
+        sibling = sibling.nextSibling;
+      }
+      if (count >= maxSiblings) {
+        console.warn('Maximum sibling limit reached in nextUntil');
+      }
+    });
+    return new CrabJsElementCollection(siblings);
+  }
+
+  /**
+   * Gets the previous sibling element of each element in the collection
+   * @returns A new CrabJsElementCollection containing the previous siblings
+   */
+  public prev(): CrabJsElementCollection {
+    const prevSiblings = Array.from(this.elements)
+      .map(element => {
+        let sibling = element.previousSibling;
+        let depth = 0;
+        const maxDepth = 100; // Prevent infinite loops
+        
+        while (sibling && !(sibling instanceof HTMLElement) && depth < maxDepth) {
+          sibling = sibling.previousSibling;
+          depth++;
+        }
+        return sibling instanceof HTMLElement ? sibling : null;
+      })
+      .filter((sibling): sibling is HTMLElement => sibling !== null);
+    return new CrabJsElementCollection(prevSiblings);
+  }
+
+  /**
+   * Gets previous sibling elements until a matching selector is found
+   * @param selector - The CSS selector to stop at
+   * @returns A new CrabJsElementCollection containing the previous siblings
+   */
+  public prevUntil(selector: string): CrabJsElementCollection {
+    const siblings: HTMLElement[] = [];
+    const maxSiblings = 1000; // Prevent excessive memory usage
+    
+    this.elements.forEach(element => {
+      let sibling = element.previousSibling;
+      let count = 0;
+      
+      while (sibling && count < maxSiblings) {
+        if (sibling instanceof HTMLElement) {
+          if (sibling.matches(selector)) break;
+          siblings.push(sibling);
+          count++;
+        }
+        sibling = sibling.previousSibling;
+      }
+      if (count >= maxSiblings) {
+        console.warn('Maximum sibling limit reached in prevUntil');
+      }
+    });
+    return new CrabJsElementCollection(siblings);
+  }
+
+  /**
+   * Finds elements matching the selector within the current elements
+   * @param selector - The CSS selector to match elements
+   * @returns A new CrabJsElementCollection containing the matched elements
+   */
+  public find(selector: string): CrabJsElementCollection {
+    const found = Array.from(this.elements)
+      .reduce((acc: HTMLElement[], element) => {
+        return acc.concat(
+          Array.from(element.querySelectorAll(selector))
+            .filter((el): el is HTMLElement => el instanceof HTMLElement)
+        );
+      }, []);
+    return new CrabJsElementCollection(found);
+  }
+
+  /**
+   * Gets the closest ancestor that matches the selector
+   * @param selector - The CSS selector to match elements
+   * @returns A new CrabJsElementCollection containing the matched ancestors
+   */
+  public closest(selector: string): CrabJsElementCollection {
+    const ancestors = Array.from(this.elements)
+      .map(element => {
+        // Polyfill is added in initPolyfills() for older browsers
+        return element.closest(selector);
+      })
+      .filter((ancestor): ancestor is HTMLElement => ancestor !== null);
+    return new CrabJsElementCollection(ancestors);
+  }
+
+  /**
+   * Gets the first element in the collection
+   * @returns A new CrabJsElementCollection containing only the first element
+   */
+  public first(): CrabJsElementCollection {
+    return new CrabJsElementCollection(this.elements.slice(0, 1));
+  }
+
+  /**
+   * Gets elements from the start until a matching selector is found
+   * @param selector - The CSS selector to stop at
+   * @returns A new CrabJsElementCollection containing the elements
+   */
+  public firstUntil(selector: string): CrabJsElementCollection {
+    const elements = [];
+    for (const element of this.elements) {
+      if (element.matches(selector)) break;
+      elements.push(element);
+    }
+    return new CrabJsElementCollection(elements);
+  }
+
+  /**
+   * Gets the last element in the collection
+   * @returns A new CrabJsElementCollection containing only the last element
+   */
+  public last(): CrabJsElementCollection {
+    return new CrabJsElementCollection(this.elements.slice(-1));
+  }
+
+  /**
+   * Gets elements from the end until a matching selector is found
+   * @param selector - The CSS selector to stop at
+   * @returns A new CrabJsElementCollection containing the elements
+   */
+  public lastUntil(selector: string): CrabJsElementCollection {
+    const elements = [];
+    for (let i = this.elements.length - 1; i >= 0; i--) {
+      if (this.elements[i].matches(selector)) break;
+      elements.unshift(this.elements[i]);
+    }
+    return new CrabJsElementCollection(elements);
+  }
+
+  /**
+   * Adds a class to each element in the collection
+   * @param className - The class name to add
+   * @returns The current instance for chaining
+   */
+  public addClass(className: string): CrabJsElementCollection {
+    try {
+      this.each((element) => {
+        if (element.classList) {
+          element.classList.add(className);
+        } else {
+          const classes = element.className.split(' ');
+          if (classes.indexOf(className) === -1) {
+            element.className += ' ' + className;
+          }
+        }
+      });
+    } catch (error) {
+      console.error('Error adding class:', error);
+    }
+    return this;
+  }
+
+  /**
+   * Removes a class from each element in the collection
+   * @param className - The class name to remove
+   * @returns The current instance for chaining
+   */
+  public removeClass(className: string): CrabJsElementCollection {
+    try {
+      this.each((element) => element.classList.remove(className));
+    } catch (error) {
+      console.error('Error removing class:', error);
+    }
+    return this;
+  }
+
+  /**
+   * Toggles a class on each element in the collection
+   * @param className - The class name to toggle
+   * @returns The current instance for chaining
+   */
+  public toggleClass(className: string): CrabJsElementCollection {
+    try {
+      this.each((element) => element.classList.toggle(className));
+    } catch (error) {
+      console.error('Error toggling class:', error);
+    }
+    return this;
+  }
+
   /**
-   * Performs an AJAX request with the given options
-   * @param options - The options for the AJAX request
+   * Gets the computed value of a style property of the first element
+   * @param name - The property, in camelCase or kebab-case, or a custom property such as '--accent'
+   * @returns The computed value, or '' if the collection is empty
+   */
+  public css(name: string): string;
+  /**
+   * Gets the computed values of several style properties of the first element
+   * @param names - The properties
+   * @returns The computed values by property name
+   */
+  public css(names: string[]): Record<string, string>;
+  /**
+   * Sets a style property on each element in the collection
+   * @param name - The property, in camelCase or kebab-case, or a custom property such as '--accent'
+   * @param value - The value, or a function receiving the current computed value and the element index
+   * @returns The current instance for chaining
+   */
+  public css(name: string, value: CrabJsCssSetter): CrabJsElementCollection;
+  /**
+   * Sets several style properties on each element in the collection
+   * @param styles - The values by property name
+   * @returns The current instance for chaining
    */
-  public static ajax(options: Options): void {
+  public css(styles: Record<string, CrabJsCssSetter>): CrabJsElementCollection;
+  public css(name: string | string[] | Record<string, CrabJsCssSetter>, value?: CrabJsCssSetter): string | Record<string, string> | CrabJsElementCollection {
+    if (typeof name === 'string' && value === undefined) {
+      const element = this.elements[0];
+      return element ? CrabJsElementCollection.computedStyle(element, name) : '';
+    }
+    if (Array.isArray(name)) {
+      const element = this.elements[0];
+      const values: Record<string, string> = {};
+      name.forEach(property => {
+        values[property] = element ? CrabJsElementCollection.computedStyle(element, property) : '';
+      });
+      return values;
+    }
+    const styles = typeof name === 'string' ? { [name]: value as CrabJsCssSetter } : name;
     try {
-      if (!options.url) {
-        throw new Error('URL is required for AJAX request');
-      }
-
-      const xhr = new XMLHttpRequest();
-      const urlWithParams = CrabJsAjax.buildUrlWithParams(options.url, options.params);
-      xhr.open(options.method || 'GET', urlWithParams, true);
-
-      // Set custom headers
-      if (options.headers) {
-        try {
-          for (const key in options.headers) {
-            xhr.setRequestHeader(key, options.headers[key]);
+      this.each((element, index) => {
+        Object.keys(styles).forEach(property => {
+          const setter = styles[property];
+          const next = typeof setter === 'function'
+            ? setter(CrabJsElementCollection.computedStyle(element, property), index, element)
+            : setter;
+          if (next !== undefined) {
+            CrabJsElementCollection.setStyle(element, property, next);
           }
-        } catch (error) {
-          if (options.error) {
-            options.error(0, 'Invalid headers', error as Error);
-          }
-          return;
-        }
-      }
+        });
+      });
+    } catch (error) {
+      console.error('Error setting style:', error);
+    }
+    return this;
+  }
 
-      // Set content type
-      if (options.contentType) {
-        xhr.setRequestHeader('Content-Type', options.contentType);
-      } else {
-        xhr.setRequestHeader('Content-Type', 'application/json;charset=UTF-8');
-      }
+  /**
+   * Gets the content width of the first element, or sets the content width of each element.
+   * Sizes exclude padding and border whatever the box-sizing, and hidden elements are measured as if shown
+   * @param value - The width to set: a number of pixels, a CSS length, or a function receiving the current width
+   * @returns The width of the first element (0 if the collection is empty) or the current instance for chaining
+   */
+  public width(): number;
+  public width(value: CrabJsDimensionSetter): CrabJsElementCollection;
+  public width(value?: CrabJsDimensionSetter): number | CrabJsElementCollection {
+    return value === undefined ? this.dimension('width', 'content') : this.setDimension('width', value);
+  }
 
-      // Set response type
-      if (options.responseType) {
-        try {
-          xhr.responseType = options.responseType;
-        } catch (error) {
-          if (options.error) {
-            options.error(0, 'Invalid response type', error as Error);
-          }
-          return;
-        }
-      }
+  /**
+   * Gets the content height of the first element, or sets the content height of each element.
+   * Sizes exclude padding and border whatever the box-sizing, and hidden elements are measured as if shown
+   * @param value - The height to set: a number of pixels, a CSS length, or a function receiving the current height
+   * @returns The height of the first element (0 if the collection is empty) or the current instance for chaining
+   */
+  public height(): number;
+  public height(value: CrabJsDimensionSetter): CrabJsElementCollection;
+  public height(value?: CrabJsDimensionSetter): number | CrabJsElementCollection {
+    return value === undefined ? this.dimension('height', 'content') : this.setDimension('height', value);
+  }
 
-      // Handle response
-      xhr.onreadystatechange = () => {
-        if (xhr.readyState === XMLHttpRequest.DONE) {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            try {
-              const response = options.responseType === 'json' ? JSON.parse(xhr.responseText) : xhr.responseText;
-              options.success && options.success(response);
-            } catch (error) {
-              options.error && options.error(xhr.status, 'Error parsing response', error as Error);
-            }
-          } else {
-            options.error && options.error(xhr.status, xhr.statusText);
-          }
-        }
-      };
+  /**
+   * Gets the width of the first element including padding
+   * @returns The width in pixels, or 0 if the collection is empty
+   */
+  public innerWidth(): number {
+    return this.dimension('width', 'padding');
+  }
 
-      // Handle network errors
-      xhr.onerror = () => {
-        options.error && options.error(xhr.status, 'Network error');
-      };
+  /**
+   * Gets the height of the first element including padding
+   * @returns The height in pixels, or 0 if the collection is empty
+   */
+  public innerHeight(): number {
+    return this.dimension('height', 'padding');
+  }
 
-      // Handle timeout
-      if (options.timeout) {
-        xhr.timeout = options.timeout;
-        xhr.ontimeout = () => {
-          options.error && options.error(xhr.status, 'Request timed out');
-        };
-      }
+  /**
+   * Gets the width of the first element including padding and border
+   * @param includeMargin - Whether to add the margins (default: false)
+   * @returns The width in pixels, or 0 if the collection is empty
+   */
+  public outerWidth(includeMargin = false): number {
+    return this.dimension('width', includeMargin ? 'margin' : 'border');
+  }
 
-      // Prepare data to send
-      let dataToSend: string | null = null;
-      if (options.data) {
-        try {
-          dataToSend = options.contentType === 'application/x-www-form-urlencoded'
-            ? CrabJsAjax.encodeFormData(options.data)
-            : JSON.stringify(options.data);
-        } catch (error) {
-          if (options.error) {
-            options.error(0, 'Error processing request data', error as Error);
-          }
-          return;
+  /**
+   * Gets the height of the first element including padding and border
+   * @param includeMargin - Whether to add the margins (default: false)
+   * @returns The height in pixels, or 0 if the collection is empty
+   */
+  public outerHeight(includeMargin = false): number {
+    return this.dimension('height', includeMargin ? 'margin' : 'border');
+  }
+
+  /**
+   * Gets the position of the first element relative to the document, or moves each element to a position.
+   * Moving a statically positioned element makes it relatively positioned
+   * @param coordinates - The position to move to
+   * @returns The border-box position of the first element ({ top: 0, left: 0 } if the collection is empty
+   * or the element is hidden) or the current instance for chaining
+   */
+  public offset(): CrabJsCoordinates;
+  public offset(coordinates: Partial<CrabJsCoordinates>): CrabJsElementCollection;
+  public offset(coordinates?: Partial<CrabJsCoordinates>): CrabJsCoordinates | CrabJsElementCollection {
+    if (coordinates === undefined) {
+      const element = this.elements[0];
+      return element ? CrabJsElementCollection.documentOffset(element) : { top: 0, left: 0 };
+    }
+    try {
+      this.each((element) => {
+        const styles = getComputedStyle(element);
+        if (styles.position === 'static') {
+          element.style.position = 'relative';
         }
-      }
+        const current = CrabJsElementCollection.documentOffset(element);
+        const top = parseFloat(styles.top) || 0;
+        const left = parseFloat(styles.left) || 0;
+        if (coordinates.top !== undefined) {
+          element.style.top = `${coordinates.top - current.top + top}px`;
+        }
+        if (coordinates.left !== undefined) {
+          element.style.left = `${coordinates.left - current.left + left}px`;
+        }
+      });
+    } catch (error) {
+      console.error('Error setting offset:', error);
+    }
+    return this;
+  }
 
-      xhr.send(dataToSend);
+  /**
+   * Gets the position of the first element's margin box relative to its offset parent's padding box,
+   * the values to give top and left to place it there with absolute positioning
+   * @returns The position, or { top: 0, left: 0 } if the collection is empty
+   */
+  public position(): CrabJsCoordinates {
+    const element = this.elements[0];
+    if (!element) return { top: 0, left: 0 };
 
-    } catch (error) {
-      if (options.error) {
-        options.error(0, 'Unexpected error occurred', error as Error);
+    const styles = getComputedStyle(element);
+    let offset: CrabJsCoordinates;
+    let parentOffset = { top: 0, left: 0 };
+    if (styles.position === 'fixed') {
+      const rect = element.getBoundingClientRect();
+      offset = { top: rect.top, left: rect.left };
+    } else {
+      offset = CrabJsElementCollection.documentOffset(element);
+      const parent = element.offsetParent as HTMLElement | null;
+      if (parent && parent !== document.body && parent !== document.documentElement) {
+        const parentStyles = getComputedStyle(parent);
+        const parentPosition = CrabJsElementCollection.documentOffset(parent);
+        parentOffset = {
+          top: parentPosition.top + (parseFloat(parentStyles.borderTopWidth) || 0) - parent.scrollTop,
+          left: parentPosition.left + (parseFloat(parentStyles.borderLeftWidth) || 0) - parent.scrollLeft
+        };
       }
     }
+    return {
+      top: offset.top - parentOffset.top - (parseFloat(styles.marginTop) || 0),
+      left: offset.left - parentOffset.left - (parseFloat(styles.marginLeft) || 0)
+    };
+  }
+
+  /**
+   * Gets the vertical scroll position of the first element, or scrolls each element
+   * @param value - The scroll position to set in pixels
+   * @returns The scroll position of the first element (0 if the collection is empty) or the current instance for chaining
+   */
+  public scrollTop(): number;
+  public scrollTop(value: number): CrabJsElementCollection;
+  public scrollTop(value?: number): number | CrabJsElementCollection {
+    if (value === undefined) {
+      return this.elements[0]?.scrollTop || 0;
+    }
+    this.each((element) => {
+      element.scrollTop = value;
+    });
+    return this;
   }
 
   /**
-   * Builds a URL with query parameters
-   * @param url - The base URL
-   * @param params - The query parameters
-   * @returns The URL with query parameters
+   * Gets the horizontal scroll position of the first element, or scrolls each element
+   * @param value - The scroll position to set in pixels
+   * @returns The scroll position of the first element (0 if the collection is empty) or the current instance for chaining
    */
-  private static buildUrlWithParams(url: string, params?: Record<string, string>): string {
-    try {
-      if (!params) return url;
-      const queryString = Object.keys(params)
-        .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(params[key])}`)
-        .join('&');
-      return `${url}?${queryString}`;
-    } catch (error) {
-      throw new Error(`Error building URL parameters: ${error}`);
+  public scrollLeft(): number;
+  public scrollLeft(value: number): CrabJsElementCollection;
+  public scrollLeft(value?: number): number | CrabJsElementCollection {
+    if (value === undefined) {
+      return this.elements[0]?.scrollLeft || 0;
     }
+    this.each((element) => {
+      element.scrollLeft = value;
+    });
+    return this;
   }
 
   /**
-   * Encodes data as application/x-www-form-urlencoded
-   * @param data - The data to encode
-   * @returns The encoded data string
+   * Gets the size and viewport position of the first element's border box, including transforms
+   * @returns The bounding rectangle, or null if the collection is empty
    */
-  private static encodeFormData(data: any): string {
-    try {
-      if (typeof data !== 'object' || data === null) {
-        throw new Error('Data must be an object');
+  public rect(): DOMRect | null {
+    const element = this.elements[0];
+    return element ? element.getBoundingClientRect() : null;
+  }
+
+  /**
+   * Measures a dimension of the first element
+   * @param dimension - 'width' or 'height'
+   * @param box - The box to measure: the content box, or with padding, border or margin
+   */
+  private dimension(dimension: 'width' | 'height', box: 'content' | 'padding' | 'border' | 'margin'): number {
+    const element = this.elements[0];
+    if (!element) return 0;
+    return CrabJsElementCollection.whileShown(element, () => {
+      const styles = getComputedStyle(element);
+      const size = dimension === 'width' ? element.offsetWidth : element.offsetHeight;
+      const border = CrabJsElementCollection.boxSides(styles, dimension, 'border');
+      const padding = CrabJsElementCollection.boxSides(styles, dimension, 'padding');
+      switch (box) {
+        case 'content': return Math.max(0, size - border - padding);
+        case 'padding': return Math.max(0, size - border);
+        case 'border': return size;
+        default: return size + CrabJsElementCollection.boxSides(styles, dimension, 'margin');
       }
-      return Object.keys(data)
-        .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(data[key])}`)
-        .join('&');
+    });
+  }
+
+  /**
+   * Sets the content width or height of each element, adding padding and border for border-box elements
+   */
+  private setDimension(dimension: 'width' | 'height', value: CrabJsDimensionSetter): CrabJsElementCollection {
+    try {
+      this.each((element, index) => {
+        const size = typeof value === 'function'
+          ? value(new CrabJsElementCollection([element]).dimension(dimension, 'content'), index, element)
+          : value;
+        if (typeof size === 'number' || /^-?[\d.]+$/.test(size)) {
+          const styles = getComputedStyle(element);
+          const extra = styles.boxSizing === 'border-box'
+            ? CrabJsElementCollection.boxSides(styles, dimension, 'border') + CrabJsElementCollection.boxSides(styles, dimension, 'padding')
+            : 0;
+          element.style[dimension] = `${Math.max(0, Number(size) + extra)}px`;
+        } else {
+          element.style[dimension] = size;
+        }
+      });
     } catch (error) {
-      throw new Error(`Error encoding form data: ${error}`);
+      console.error(`Error setting ${dimension}:`, error);
     }
+    return this;
   }
-}
 
+  /**
+   * Style properties whose numeric values don't take 'px'
+   */
+  private static unitless = new Set([
+    'animation-iteration-count', 'aspect-ratio', 'column-count', 'fill-opacity', 'flex', 'flex-grow', 'flex-shrink',
+    'font-weight', 'grid-area', 'grid-column', 'grid-column-end', 'grid-column-start', 'grid-row', 'grid-row-end',
+    'grid-row-start', 'line-clamp', 'line-height', 'opacity', 'order', 'orphans', 'scale', 'stop-opacity',
+    'stroke-miterlimit', 'stroke-opacity', 'tab-size', 'widows', 'z-index', 'zoom'
+  ]);
 
+  /**
+   * Converts a camelCase property name to the kebab-case name CSS uses, keeping custom properties as they are
+   */
+  private static cssName(name: string): string {
+    if (name.startsWith('--')) return name;
+    const kebab = name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+    // Vendor prefixes such as WebkitTransform and msTransform become -webkit-transform and -ms-transform
+    return kebab.startsWith('ms-') ? `-${kebab}` : kebab;
+  }
 
+  private static computedStyle(element: HTMLElement, name: string): string {
+    return getComputedStyle(element).getPropertyValue(CrabJsElementCollection.cssName(name)).trim();
+  }
 
+  private static setStyle(element: HTMLElement, name: string, value: CrabJsCssValue): void {
+    const property = CrabJsElementCollection.cssName(name);
+    if (value === null || value === '') {
+      element.style.removeProperty(property);
+      return;
+    }
+    const text = typeof value === 'number' && !property.startsWith('--') && !CrabJsElementCollection.unitless.has(property)
+      ? `${value}px`
+      : String(value);
+    // A trailing !important has to be passed as the priority argument
+    const important = /\s*!important\s*$/i;
+    element.style.setProperty(property, text.replace(important, ''), important.test(text) ? 'important' : '');
+  }
 
-// Base class must be defined before it's extended
- class CrabJsElementCollection implements CrabJsAnimation {
-  private elements: HTMLElement[];
-  private animation:CrabJsElementCollectionAnimation;
+  /**
+   * Adds the widths of the two sides of a box along a dimension
+   */
+  private static boxSides(styles: CSSStyleDeclaration, dimension: 'width' | 'height', box: 'padding' | 'border' | 'margin'): number {
+    const sides = dimension === 'width' ? ['left', 'right'] : ['top', 'bottom'];
+    return sides.reduce((sum, side) => {
+      const property = box === 'border' ? `border-${side}-width` : `${box}-${side}`;
+      return sum + (parseFloat(styles.getPropertyValue(property)) || 0);
+    }, 0);
+  }
 
-  constructor(elements: HTMLElement[]) {
-    this.elements = elements;
-    this.animation=new CrabJsElementCollectionAnimation(this);
+  /**
+   * Runs a measurement with a hidden element laid out invisibly, since hidden elements have no size.
+   * The element and every ancestor with display: none are shown for the measurement and then restored
+   */
+  private static whileShown<T>(element: HTMLElement, measure: () => T): T {
+    const hidden: HTMLElement[] = [];
+    for (let node: HTMLElement | null = element; node; node = node.parentElement) {
+      if (getComputedStyle(node).display === 'none') hidden.push(node);
+    }
+    if (!hidden.length) {
+      return measure();
+    }
+    const saved = hidden.map(node => ({ display: node.style.display, position: node.style.position, visibility: node.style.visibility }));
+    hidden.forEach(node => {
+      node.style.display = 'block';
+      node.style.position = 'absolute';
+      node.style.visibility = 'hidden';
+    });
+    try {
+      return measure();
+    } finally {
+      hidden.forEach((node, index) => {
+        node.style.display = saved[index].display;
+        node.style.position = saved[index].position;
+        node.style.visibility = saved[index].visibility;
+      });
+    }
   }
 
   /**
-   * Applies a function to each element in the collection
-   * @param callback - The function to apply to each element
-   * @returns The current instance for chaining
+   * Gets the position of an element's border box relative to the document
    */
-  public each(callback: (element: HTMLElement, index: number) => void): CrabJsElementCollection {
+  private static documentOffset(element: HTMLElement): CrabJsCoordinates {
+    if (!element.getClientRects().length) {
+      return { top: 0, left: 0 };
+    }
+    const rect = element.getBoundingClientRect();
+    const view = element.ownerDocument.defaultView || window;
+    return { top: rect.top + view.pageYOffset, left: rect.left + view.pageXOffset };
+  }
+
+  /**
+   * Observes changes to each element in the collection
+   * @param callback - The function to call when a mutation is observed
+   */
+  public observe(callback: MutationCallback): void {
     try {
-      this.elements.forEach((element, index) => callback(element, index));
+      this.each((element) => {
+        const observer = new MutationObserver(callback);
+        observer.observe(element, { attributes: true, childList: true, subtree: true });
+      });
     } catch (error) {
-      console.error('Error in each method:', error);
+      console.error('Error observing elements:', error);
     }
-    return this;
   }
 
   /**
-   * Gets the parent elements of each element in the collection
-   * @returns A new CrabJsElementCollection containing the parent elements
+   * Method to intercept method calls
+   * @param methodName - The name of the method to intercept
+   * @param interceptor - The function to call before the original method
    */
-  public parent(): CrabJsElementCollection {
-    const parents = Array.from(this.elements)
-      .map(element => element.parentElement)
-      .filter((parent): parent is HTMLElement => parent !== null);
-    return new CrabJsElementCollection(parents);
+  public intercept(methodName: keyof CrabJsElementCollection, interceptor: Function): void {
+    const originalMethod = this[methodName];
+    if (typeof originalMethod === 'function') {
+      this[methodName] = ((...args: any[]) => {
+        interceptor(...args);
+        //@ts-ignore
+        return originalMethod.apply(this, args);
+      }) as any;
+    }
   }
 
   /**
-   * Gets parent elements until a matching selector is found
-   * @param selector - The CSS selector to stop at
-   * @returns A new CrabJsElementCollection containing the parent elements
+   * Method to add both mouse and touch event listeners
+   * @param eventType - The type of the event, with optional namespaces ('click.menu'); several can be separated by spaces
+   * @param callback - The callback function
+   * @param options - Listener options
+   * @returns The current instance for chaining
    */
-  public parentUntil(selector: string): CrabJsElementCollection {
-    const parents: HTMLElement[] = [];
-    const maxDepth = 1000; // Prevent infinite loops
-    
-    this.elements.forEach(element => {
-      let depth = 0;
-      let parent = element.parentElement;
-      while (parent && !parent.matches(selector) && depth < maxDepth) {
-        parents.push(parent);
-        parent = parent.parentElement;
-        depth++;
-      }
-      if (depth >= maxDepth) {
-        console.warn('Maximum ancestor depth reached in parentUntil');
+  public on(eventType: string, callback: EventListener, options: CrabJsListenerOptions = {}): CrabJsElementCollection {
+    this.each((element) => CrabJsElementCollection.listen(element, eventType, callback, options));
+    return this;
+  }
+
+  /**
+   * Method to remove event listeners added with on(), delegate() or one() from each element
+   * @param eventType - The type of the event, a namespace ('.menu'), both ('click.menu'), or several separated by spaces.
+   * Omit it, or pass the callback in its place, to match every type
+   * @param callback - The callback function to remove (omit to remove every matching listener)
+   * @returns The current instance for chaining
+   */
+  public off(eventType?: string | EventListener, callback?: EventListener): CrabJsElementCollection {
+    if (typeof eventType === 'function') {
+      callback = eventType;
+      eventType = undefined;
+    }
+    const filters = eventType ? CrabJsElementCollection.parseEvents(eventType) : [{ type: '', namespaces: [] as string[] }];
+    this.each((element) => {
+      (CrabJsElementCollection.listeners.get(element) || [])
+        .filter(listener => (!callback || listener.callback === callback) && filters.some(filter =>
+          (!filter.type || filter.type === listener.type)
+          && filter.namespaces.every(namespace => listener.namespaces.indexOf(namespace) !== -1)))
+        .forEach(listener => CrabJsElementCollection.unlisten(element, listener));
+      // Listeners added with addEventListener directly
+      if (callback) {
+        filters.forEach(filter => filter.type && element.removeEventListener(filter.type, callback as EventListener));
       }
     });
-    return new CrabJsElementCollection(parents);
+    return this;
   }
 
   /**
-   * Gets all child elements of each element in the collection
-   * @returns A new CrabJsElementCollection containing all child elements
+   * Fades in the elements over a specified duration
+   * @param duration - The duration of the fade-in effect in milliseconds
+   * @returns The current instance for chaining
    */
-  public children(): CrabJsElementCollection {
-    const children = Array.from(this.elements)
-      .reduce((acc: HTMLElement[], element) => {
-        const childElements = Array.from(element.children)
-          .filter((child): child is HTMLElement => child instanceof HTMLElement);
-        return acc.concat(childElements);
-      }, []);
-    return new CrabJsElementCollection(children);
+  fadeIn(duration: number = 400): CrabJsElementCollection {
+    return this.animation.fadeIn(duration);
+  }
+
+  /**
+   * Fades out the elements over a specified duration
+   * @param duration - The duration of the fade-out effect in milliseconds
+   * @returns The current instance for chaining
+   */
+  fadeOut(duration: number = 400): CrabJsElementCollection {
+    return this.animation.fadeOut(duration);
   }
 
   /**
-   * Gets child elements until a matching selector is found
-   * @param selector - The CSS selector to stop at
-   * @returns A new CrabJsElementCollection containing the child elements
+   * Slides in the elements from the top over a specified duration
+   * @param duration - The duration of the slide-in effect in milliseconds
+   * @returns The current instance for chaining
    */
-  public childrenUntil(selector: string): CrabJsElementCollection {
-    const children: HTMLElement[] = [];
-    const maxChildren = 10000; // Prevent excessive memory usage
-    let totalChildren = 0;
+  slideIn(duration: number = 400): CrabJsElementCollection {
+    return this.animation.slideIn(duration);
+  }
 
-    this.elements.forEach(element => {
-      Array.from(element.children).some(child => {
-        if (totalChildren >= maxChildren) {
-          console.warn('Maximum children limit reached in childrenUntil');
-          return true;
-        }
-        if (child instanceof HTMLElement && !child.matches(selector)) {
-          children.push(child);
-          totalChildren++;
-        }
-        return false;
-      });
-    });
-    return new CrabJsElementCollection(children);
+  /**
+   * Slides out the elements to the top over a specified duration
+   * @param duration - The duration of the slide-out effect in milliseconds
+   * @returns The current instance for chaining
+   */
+  slideOut(duration: number = 400): CrabJsElementCollection {
+    return this.animation.slideOut(duration);
   }
 
   /**
-   * Gets the next sibling element of each element in the collection
-   * @returns A new CrabJsElementCollection containing the next siblings
+   * Slides the elements up or down
+   * @param duration - The duration of the slide effect in milliseconds
+   * @returns The current instance for chaining
    */
-  public next(): CrabJsElementCollection {
-    const nextSiblings = Array.from(this.elements)
-      .map(element => {
-        let sibling = element.nextSibling;
-        let depth = 0;
-        const maxDepth = 100; // Prevent infinite loops
-        
-        while (sibling && !(sibling instanceof HTMLElement) && depth < maxDepth) {
-          sibling = sibling.nextSibling;
-          depth++;
-        }
-        return sibling instanceof HTMLElement ? sibling : null;
-      })
-      .filter((sibling): sibling is HTMLElement => sibling !== null);
-    return new CrabJsElementCollection(nextSiblings);
+  slide(duration: number = 400): CrabJsElementCollection {
+    return this.animation.slide(duration);
   }
 
   /**
-   * Gets next sibling elements until a matching selector is found
-   * @param selector - The CSS selector to stop at
-   * @returns A new CrabJsElementCollection containing the next siblings
+   * Method to delegate an event to a child element
+   * @param eventType - The type of the event, with optional namespaces ('click.menu')
+   * @param selector - The selector for the child element
+   * @param callback - The callback function to execute when the event is triggered
+   * @param options - Listener options
+   * @returns The current instance for chaining
    */
-  public nextUntil(selector: string): CrabJsElementCollection {
-    const siblings: HTMLElement[] = [];
-    const maxSiblings = 1000; // Prevent excessive memory usage
-    
-    this.elements.forEach(element => {
-      let sibling = element.nextSibling;
-      let count = 0;
-      
-      while (sibling && count < maxSiblings) {
-        if (sibling instanceof HTMLElement) {
-          if (sibling.matches(selector)) break;
-          siblings.push(sibling);
-          count++;
-        }
-        sibling = sibling.nextSibling;
-      }
-      if (count >= maxSiblings) {
-        console.warn('Maximum sibling limit reached in nextUntil');
-      }
-    });
-    return new CrabJsElementCollection(siblings);
+  public delegate(eventType: string, selector: string, callback: EventListener, options: CrabJsListenerOptions = {}): CrabJsElementCollection {
+    this.each((element) => CrabJsElementCollection.listen(element, eventType, callback, options, selector));
+    return this;
   }
 
   /**
-   * Gets the previous sibling element of each element in the collection
-   * @returns A new CrabJsElementCollection containing the previous siblings
+   * Method to handle an event only once. A mouse event and its touch counterpart count as one
+   * @param eventType - The type of the event, with optional namespaces ('click.menu')
+   * @param callback - The callback function to execute when the event is triggered
+   * @param options - Listener options
+   * @returns The current instance for chaining
    */
-  public prev(): CrabJsElementCollection {
-    const prevSiblings = Array.from(this.elements)
-      .map(element => {
-        let sibling = element.previousSibling;
-        let depth = 0;
-        const maxDepth = 100; // Prevent infinite loops
-        
-        while (sibling && !(sibling instanceof HTMLElement) && depth < maxDepth) {
-          sibling = sibling.previousSibling;
-          depth++;
-        }
-        return sibling instanceof HTMLElement ? sibling : null;
-      })
-      .filter((sibling): sibling is HTMLElement => sibling !== null);
-    return new CrabJsElementCollection(prevSiblings);
+  public one(eventType: string, callback: EventListener, options: CrabJsListenerOptions = {}): CrabJsElementCollection {
+    return this.on(eventType, callback, { ...options, once: true });
   }
 
   /**
-   * Gets previous sibling elements until a matching selector is found
-   * @param selector - The CSS selector to stop at
-   * @returns A new CrabJsElementCollection containing the previous siblings
+   * Dispatches an event on each element. Known DOM events such as 'click' or 'input' are dispatched as
+   * their native event class, with detail as its init properties; other types as a CustomEvent carrying detail.
+   * With namespaces ('save.editor'), only listeners in those namespaces run
+   * @param eventType - The type of the event, with optional namespaces
+   * @param detail - Data for the listeners
+   * @param options - Whether the event bubbles, can be cancelled and crosses shadow DOM boundaries
+   * @returns true if a listener cancelled the event with preventDefault()
    */
-  public prevUntil(selector: string): CrabJsElementCollection {
-    const siblings: HTMLElement[] = [];
-    const maxSiblings = 1000; // Prevent excessive memory usage
-    
-    this.elements.forEach(element => {
-      let sibling = element.previousSibling;
-      let count = 0;
-      
-      while (sibling && count < maxSiblings) {
-        if (sibling instanceof HTMLElement) {
-          if (sibling.matches(selector)) break;
-          siblings.push(sibling);
-          count++;
-        }
-        sibling = sibling.previousSibling;
+  public trigger(eventType: string, detail?: unknown, options: CrabJsTriggerOptions = {}): boolean {
+    const [event] = CrabJsElementCollection.parseEvents(eventType);
+    if (!event || !event.type) return false;
+    let cancelled = false;
+    this.each((element) => {
+      const dispatched = CrabJsElementCollection.createEvent(event.type, detail, options);
+      if (event.namespaces.length) {
+        CrabJsElementCollection.eventNamespaces.set(dispatched, event.namespaces);
       }
-      if (count >= maxSiblings) {
-        console.warn('Maximum sibling limit reached in prevUntil');
+      if (!element.dispatchEvent(dispatched)) {
+        cancelled = true;
       }
     });
-    return new CrabJsElementCollection(siblings);
+    return cancelled;
   }
 
   /**
-   * Finds elements matching the selector within the current elements
-   * @param selector - The CSS selector to match elements
-   * @returns A new CrabJsElementCollection containing the matched elements
+   * Calls the listeners added with on() to the first element for an event, without dispatching it:
+   * the event doesn't bubble, delegated listeners don't run and there is no default action
+   * @param eventType - The type of the event, with optional namespaces
+   * @param detail - Data for the listeners, available as event.detail
+   * @returns true if a listener called preventDefault()
    */
-  public find(selector: string): CrabJsElementCollection {
-    const found = Array.from(this.elements)
-      .reduce((acc: HTMLElement[], element) => {
-        return acc.concat(
-          Array.from(element.querySelectorAll(selector))
-            .filter((el): el is HTMLElement => el instanceof HTMLElement)
-        );
-      }, []);
-    return new CrabJsElementCollection(found);
+  public triggerHandler(eventType: string, detail?: unknown): boolean {
+    const element = this.elements[0];
+    const [event] = CrabJsElementCollection.parseEvents(eventType);
+    if (!element || !event || !event.type) return false;
+    const custom = new CustomEvent(event.type, { detail, cancelable: true });
+    (CrabJsElementCollection.listeners.get(element) || [])
+      .filter(listener => listener.type === event.type && !listener.selector
+        && event.namespaces.every(namespace => listener.namespaces.indexOf(namespace) !== -1))
+      .forEach(listener => listener.bindings[0].listener(custom));
+    return custom.defaultPrevented;
   }
 
   /**
-   * Gets the closest ancestor that matches the selector
-   * @param selector - The CSS selector to match elements
-   * @returns A new CrabJsElementCollection containing the matched ancestors
+   * Inserts content at the end of each element. Content is cloned for every element but the last
+   * @param content - HTML, nodes or collections to insert
+   * @returns The current instance for chaining
    */
-  public closest(selector: string): CrabJsElementCollection {
-    const ancestors = Array.from(this.elements)
-      .map(element => {
-        // Polyfill is added in initPolyfills() for older browsers
-        return element.closest(selector);
-      })
-      .filter((ancestor): ancestor is HTMLElement => ancestor !== null);
-    return new CrabJsElementCollection(ancestors);
+  public append(content: CrabJsContent): CrabJsElementCollection {
+    try {
+      this.insert(content, (target, fragment) => target.appendChild(fragment));
+    } catch (error) {
+      console.error('Error appending content:', error);
+    }
+    return this;
   }
 
   /**
-   * Gets the first element in the collection
-   * @returns A new CrabJsElementCollection containing only the first element
+   * Inserts content at the start of each element. Content is cloned for every element but the last
+   * @param content - HTML, nodes or collections to insert
+   * @returns The current instance for chaining
    */
-  public first(): CrabJsElementCollection {
-    return new CrabJsElementCollection(this.elements.slice(0, 1));
+  public prepend(content: CrabJsContent): CrabJsElementCollection {
+    try {
+      this.insert(content, (target, fragment) => target.insertBefore(fragment, target.firstChild));
+    } catch (error) {
+      console.error('Error prepending content:', error);
+    }
+    return this;
   }
 
   /**
-   * Gets elements from the start until a matching selector is found
-   * @param selector - The CSS selector to stop at
-   * @returns A new CrabJsElementCollection containing the elements
+   * Inserts content before each element. Content is cloned for every element but the last
+   * @param content - HTML, nodes or collections to insert
+   * @returns The current instance for chaining
    */
-  public firstUntil(selector: string): CrabJsElementCollection {
-    const elements = [];
-    for (const element of this.elements) {
-      if (element.matches(selector)) break;
-      elements.push(element);
+  public before(content: CrabJsContent): CrabJsElementCollection {
+    try {
+      this.insert(content, (target, fragment) => target.parentNode?.insertBefore(fragment, target));
+    } catch (error) {
+      console.error('Error inserting content before elements:', error);
     }
-    return new CrabJsElementCollection(elements);
+    return this;
   }
 
   /**
-   * Gets the last element in the collection
-   * @returns A new CrabJsElementCollection containing only the last element
+   * Inserts content after each element. Content is cloned for every element but the last
+   * @param content - HTML, nodes or collections to insert
+   * @returns The current instance for chaining
    */
-  public last(): CrabJsElementCollection {
-    return new CrabJsElementCollection(this.elements.slice(-1));
+  public after(content: CrabJsContent): CrabJsElementCollection {
+    try {
+      this.insert(content, (target, fragment) => target.parentNode?.insertBefore(fragment, target.nextSibling));
+    } catch (error) {
+      console.error('Error inserting content after elements:', error);
+    }
+    return this;
   }
 
   /**
-   * Gets elements from the end until a matching selector is found
-   * @param selector - The CSS selector to stop at
-   * @returns A new CrabJsElementCollection containing the elements
+   * Inserts the elements at the end of each target, cloning them for every target but the last
+   * @param target - The elements to insert into
+   * @returns A collection of the inserted elements, including clones
    */
-  public lastUntil(selector: string): CrabJsElementCollection {
-    const elements = [];
-    for (let i = this.elements.length - 1; i >= 0; i--) {
-      if (this.elements[i].matches(selector)) break;
-      elements.unshift(this.elements[i]);
-    }
-    return new CrabJsElementCollection(elements);
+  public appendTo(target: CrabJsTarget): CrabJsElementCollection {
+    const targets = new CrabJsElementCollection(CrabJsElementCollection.resolveTargets(target));
+    return new CrabJsElementCollection(targets.insert(this, (parent, fragment) => parent.appendChild(fragment)));
   }
 
   /**
-   * Adds a class to each element in the collection
-   * @param className - The class name to add
-   * @returns The current instance for chaining
+   * Inserts the elements at the start of each target, cloning them for every target but the last
+   * @param target - The elements to insert into
+   * @returns A collection of the inserted elements, including clones
    */
-  public addClass(className: string): CrabJsElementCollection {
+  public prependTo(target: CrabJsTarget): CrabJsElementCollection {
+    const targets = new CrabJsElementCollection(CrabJsElementCollection.resolveTargets(target));
+    return new CrabJsElementCollection(targets.insert(this, (parent, fragment) => parent.insertBefore(fragment, parent.firstChild)));
+  }
+
+  /**
+   * Replaces each element with content. Content is cloned for every element but the last
+   * @param content - HTML, nodes or collections to insert
+   * @returns The current instance, holding the removed elements
+   */
+  public replaceWith(content: CrabJsContent): CrabJsElementCollection {
     try {
-      this.each((element) => {
-        if (element.classList) {
-          element.classList.add(className);
-        } else {
-          const classes = element.className.split(' ');
-          if (classes.indexOf(className) === -1) {
-            element.className += ' ' + className;
-          }
+      this.insert(content, (target, fragment) => {
+        const parent = target.parentNode;
+        if (parent) {
+          parent.insertBefore(fragment, target);
+          parent.removeChild(target);
         }
       });
     } catch (error) {
-      console.error('Error adding class:', error);
+      console.error('Error replacing elements:', error);
     }
     return this;
   }
 
   /**
-   * Removes a class from each element in the collection
-   * @param className - The class name to remove
+   * Wraps each element in a copy of a structure. The elements go inside its innermost first element
+   * @param wrapper - HTML, an element or a collection whose first element is copied, or a function returning one for each element
    * @returns The current instance for chaining
    */
-  public removeClass(className: string): CrabJsElementCollection {
+  public wrap(wrapper: CrabJsContent | ((index: number, element: HTMLElement) => CrabJsContent)): CrabJsElementCollection {
     try {
-      this.each((element) => element.classList.remove(className));
+      this.each((element, index) => {
+        const structure = CrabJsElementCollection.wrapperElement(typeof wrapper === 'function' ? wrapper(index, element) : wrapper);
+        if (!structure || !element.parentNode) return;
+        element.parentNode.insertBefore(structure, element);
+        CrabJsElementCollection.innermost(structure).appendChild(element);
+      });
     } catch (error) {
-      console.error('Error removing class:', error);
+      console.error('Error wrapping elements:', error);
     }
     return this;
   }
 
   /**
-   * Toggles a class on each element in the collection
-   * @param className - The class name to toggle
+   * Wraps all the elements together in one copy of a structure, placed where the first element was
+   * @param wrapper - HTML, an element or a collection whose first element is copied
    * @returns The current instance for chaining
    */
-  public toggleClass(className: string): CrabJsElementCollection {
+  public wrapAll(wrapper: CrabJsContent): CrabJsElementCollection {
+    const first = this.elements[0];
+    if (!first || !first.parentNode) return this;
     try {
-      this.each((element) => element.classList.toggle(className));
+      const structure = CrabJsElementCollection.wrapperElement(wrapper);
+      if (!structure) return this;
+      first.parentNode.insertBefore(structure, first);
+      const inner = CrabJsElementCollection.innermost(structure);
+      this.each((element) => inner.appendChild(element));
     } catch (error) {
-      console.error('Error toggling class:', error);
+      console.error('Error wrapping elements:', error);
     }
     return this;
   }
 
   /**
-   * Observes changes to each element in the collection
-   * @param callback - The function to call when a mutation is observed
+   * Removes the parents of the elements, keeping the parents' children in their place
+   * @param selector - Only unwrap parents matching this selector
+   * @returns The current instance for chaining
    */
-  public observe(callback: MutationCallback): void {
+  public unwrap(selector?: string): CrabJsElementCollection {
     try {
+      const parents = new Set<HTMLElement>();
       this.each((element) => {
-        const observer = new MutationObserver(callback);
-        observer.observe(element, { attributes: true, childList: true, subtree: true });
+        const parent = element.parentElement;
+        if (parent && parent !== document.body && (!selector || parent.matches(selector))) {
+          parents.add(parent);
+        }
+      });
+      parents.forEach(parent => {
+        const grandparent = parent.parentNode;
+        if (!grandparent) return;
+        while (parent.firstChild) {
+          grandparent.insertBefore(parent.firstChild, parent);
+        }
+        grandparent.removeChild(parent);
       });
     } catch (error) {
-      console.error('Error observing elements:', error);
-    }
-  }
-
-  /**
-   * Method to intercept method calls
-   * @param methodName - The name of the method to intercept
-   * @param interceptor - The function to call before the original method
-   */
-  public intercept(methodName: keyof CrabJsElementCollection, interceptor: Function): void {
-    const originalMethod = this[methodName];
-    if (typeof originalMethod === 'function') {
-      this[methodName] = ((...args: any[]) => {
-        interceptor(...args);
-        //@ts-ignore
-        return originalMethod.apply(this, args);
-      }) as any;
+      console.error('Error unwrapping elements:', error);
     }
+    return this;
   }
 
   /**
-   * Method to add both mouse and touch event listeners
-   * @param eventType - The type of the event
-   * @param callback - The callback function
+   * Removes the children of each element
+   * @returns The current instance for chaining
    */
-  public on(eventType: string, callback: EventListener): CrabJsElementCollection {
-    const touchEventMap: { [key: string]: string } = {
-      'click': 'touchend',
-      'mousedown': 'touchstart',
-      'mouseup': 'touchend',
-      'mousemove': 'touchmove'
-    };
-
+  public empty(): CrabJsElementCollection {
     this.each((element) => {
-      element.addEventListener(eventType, callback, { passive: true });
-      
-      // Add touch event if it exists in the map
-      if (touchEventMap[eventType]) {
-        element.addEventListener(touchEventMap[eventType], (e: Event) => {
-          e.preventDefault();
-          callback(e);
-        }, { passive: false });
+      while (element.firstChild) {
+        element.removeChild(element.firstChild);
       }
     });
     return this;
   }
 
   /**
-   * Method to remove an event listener from each element
-   * @param eventType - The type of the event
-   * @param callback - The callback function to remove
+   * Removes the elements from the document, keeping them and their listeners for reinsertion
    * @returns The current instance for chaining
    */
-  public off(eventType: string, callback: EventListener): CrabJsElementCollection {
-    this.each((element) => element.removeEventListener(eventType, callback));
+  public detach(): CrabJsElementCollection {
+    this.each((element) => {
+      element.parentNode?.removeChild(element);
+    });
     return this;
   }
 
   /**
-   * Fades in the elements over a specified duration
-   * @param duration - The duration of the fade-in effect in milliseconds
-   * @returns The current instance for chaining
+   * Method to remove elements, along with the listeners added to them and their descendants. Use detach() to keep them
    */
-  fadeIn(duration: number = 400): CrabJsElementCollection {
-    return this.animation.fadeIn(duration);
+  public remove(): void {
+    try {
+      this.each((element) => {
+        new CrabJsElementCollection([element, ...Array.from(element.querySelectorAll<HTMLElement>('*'))]).off();
+        element.parentNode?.removeChild(element);
+      });
+    } catch (error) {
+      console.error('Error removing elements:', error);
+    }
   }
 
   /**
-   * Fades out the elements over a specified duration
-   * @param duration - The duration of the fade-out effect in milliseconds
-   * @returns The current instance for chaining
+   * Copies the elements
+   * @param deep - Whether to copy descendants (default: true)
+   * @param withEvents - Whether to copy listeners added with on() and delegate(), on descendants too (default: false)
+   * @returns A collection of the copies
    */
-  fadeOut(duration: number = 400): CrabJsElementCollection {
-    return this.animation.fadeOut(duration);
+  public clone(deep = true, withEvents = false): CrabJsElementCollection {
+    return new CrabJsElementCollection(this.elements.map(element => {
+      const copy = element.cloneNode(deep) as HTMLElement;
+      if (withEvents) {
+        const originals = [element, ...(deep ? Array.from(element.querySelectorAll<HTMLElement>('*')) : [])];
+        const copies = [copy, ...(deep ? Array.from(copy.querySelectorAll<HTMLElement>('*')) : [])];
+        originals.forEach((original, index) => {
+          (CrabJsElementCollection.listeners.get(original) || []).forEach(listener => {
+            const eventType = [listener.type, ...listener.namespaces].join('.');
+            CrabJsElementCollection.listen(copies[index], eventType, listener.callback, listener.options, listener.selector);
+          });
+        });
+      }
+      return copy;
+    }));
   }
 
   /**
-   * Slides in the elements from the top over a specified duration
-   * @param duration - The duration of the slide-in effect in milliseconds
-   * @returns The current instance for chaining
+   * Inserts content into each element of the collection, cloning it for every element but the last
+   * @param content - The content to insert
+   * @param place - Puts a fragment holding the content in position relative to an element
+   * @returns The inserted elements, including clones
    */
-  slideIn(duration: number = 400): CrabJsElementCollection {
-    return this.animation.slideIn(duration);
+  private insert(content: CrabJsContent, place: (target: HTMLElement, fragment: DocumentFragment) => void): HTMLElement[] {
+    const inserted: HTMLElement[] = [];
+    const nodes = CrabJsElementCollection.toNodes(content);
+    const last = this.elements.length - 1;
+    this.each((target, index) => {
+      const fragment = document.createDocumentFragment();
+      nodes.forEach(node => {
+        const copy = index === last ? node : node.cloneNode(true);
+        fragment.appendChild(copy);
+        if (copy instanceof HTMLElement) {
+          inserted.push(copy);
+        }
+      });
+      place(target, fragment);
+    });
+    return inserted;
   }
 
   /**
-   * Slides out the elements to the top over a specified duration
-   * @param duration - The duration of the slide-out effect in milliseconds
-   * @returns The current instance for chaining
+   * Converts content to a list of nodes, parsing and sanitizing HTML strings
    */
-  slideOut(duration: number = 400): CrabJsElementCollection {
-    return this.animation.slideOut(duration);
+  private static toNodes(content: CrabJsContent): Node[] {
+    if (typeof content === 'string') {
+      return Array.from(CrabJsSanitizer.default.parse(content).childNodes);
+    }
+    if (content instanceof CrabJsElementCollection) {
+      return content.elements.slice();
+    }
+    if (content instanceof Node) {
+      return [content];
+    }
+    const nodes: Node[] = [];
+    Array.from(content).forEach(item => nodes.push(...CrabJsElementCollection.toNodes(item)));
+    return nodes;
+  }
+
+  private static resolveTargets(target: CrabJsTarget): HTMLElement[] {
+    if (typeof target === 'string') {
+      return Array.from(document.querySelectorAll<HTMLElement>(target));
+    }
+    if (target instanceof CrabJsElementCollection) {
+      return target.elements.slice();
+    }
+    return target instanceof HTMLElement ? [target] : Array.from(target);
   }
 
   /**
-   * Slides the elements up or down
-   * @param duration - The duration of the slide effect in milliseconds
-   * @returns The current instance for chaining
+   * Copies the first element of wrapper content
    */
-  slide(duration: number = 400): CrabJsElementCollection {
-    return this.animation.slide(duration);
+  private static wrapperElement(wrapper: CrabJsContent): HTMLElement | null {
+    const element = CrabJsElementCollection.toNodes(wrapper).find(node => node instanceof HTMLElement);
+    return element ? element.cloneNode(true) as HTMLElement : null;
   }
 
   /**
-   * Method to delegate an event to a child element
-   * @param eventType - The type of the event
-   * @param selector - The selector for the child element
-   * @param callback - The callback function to execute when the event is triggered
-   * @returns The current instance for chaining
+   * Follows first children down to the innermost element of a wrapper
    */
-  public delegate(eventType: string, selector: string, callback: EventListener): CrabJsElementCollection {
-    const touchEventMap: { [key: string]: string } = {
-      'click': 'touchend',
-      'mousedown': 'touchstart',
-      'mouseup': 'touchend',
-      'mousemove': 'touchmove'
-    };
+  private static innermost(element: HTMLElement): HTMLElement {
+    let inner = element;
+    while (inner.firstElementChild instanceof HTMLElement) {
+      inner = inner.firstElementChild;
+    }
+    return inner;
+  }
+
+  /**
+   * Mouse events and the touch events that also trigger their listeners
+   */
+  private static touchEvents: Record<string, string> = {
+    'click': 'touchend',
+    'mousedown': 'touchstart',
+    'mouseup': 'touchend',
+    'mousemove': 'touchmove'
+  };
 
-    const handleEvent = (event: Event) => {
-      const target = event.target as Element;
-      if (target && target.matches(selector)) {
+  /**
+   * Events whose listeners are passive by default, since a blocking listener delays scrolling
+   */
+  private static passiveEvents = new Set(['scroll', 'wheel', 'mousewheel', 'touchstart', 'touchmove']);
+
+  /**
+   * Adds a listener to an element and records it in the registry
+   * @param element - The element
+   * @param eventType - Event types with optional namespaces, separated by spaces
+   * @param callback - The callback function
+   * @param options - Listener options
+   * @param selector - For delegated listeners, the selector the event target must match
+   */
+  private static listen(element: HTMLElement, eventType: string, callback: EventListener, options: CrabJsListenerOptions, selector?: string): void {
+    if (options.signal && options.signal.aborted) return;
+    CrabJsElementCollection.parseEvents(eventType).forEach(({ type, namespaces }) => {
+      if (!type) return;
+      const listener: CrabJsListener = { type, namespaces, callback, options, selector, bindings: [] };
+      const handle = (event: Event) => {
+        const target = selector ? event.target as Element : element;
+        if (selector && (!target || !target.matches(selector))) return;
+        const required = CrabJsElementCollection.eventNamespaces.get(event);
+        if (required && !required.every(namespace => namespaces.indexOf(namespace) !== -1)) return;
+        if (options.once) {
+          CrabJsElementCollection.unlisten(element, listener);
+        }
         callback.call(target, event);
+      };
+      const capture = !!options.capture;
+      const passive = options.passive !== undefined ? options.passive : CrabJsElementCollection.passiveEvents.has(type);
+      listener.bindings.push({ type, listener: handle, options: { capture, passive } });
+      const touchType = CrabJsElementCollection.touchEvents[type];
+      if (touchType) {
+        listener.bindings.push({
+          type: touchType,
+          listener: (event: Event) => {
+            event.preventDefault();
+            handle(event);
+          },
+          options: { capture, passive: false }
+        });
       }
-    };
-
-    this.each((element) => {
-      element.addEventListener(eventType, handleEvent, { passive: true });
-      
-      if (touchEventMap[eventType]) {
-        element.addEventListener(touchEventMap[eventType], (e: Event) => {
-          e.preventDefault();
-          handleEvent(e);
-        }, { passive: false });
+      listener.bindings.forEach(binding => element.addEventListener(binding.type, binding.listener, binding.options));
+      if (options.signal) {
+        options.signal.addEventListener('abort', () => CrabJsElementCollection.unlisten(element, listener), { once: true });
       }
+
+      const listeners = CrabJsElementCollection.listeners.get(element) || [];
+      listeners.push(listener);
+      CrabJsElementCollection.listeners.set(element, listeners);
     });
-    return this;
   }
 
   /**
-   * Method to handle an event only once
-   * @param eventType - The type of the event
-   * @param callback - The callback function to execute when the event is triggered
-   * @returns The current instance for chaining
+   * Removes a listener, including its touch counterpart, from an element and the registry
    */
-  public one(eventType: string, callback: EventListener): CrabJsElementCollection {
-    const handler = (event: Event) => {
-      callback(event);
-      this.off(eventType, handler);
-    };
-    this.on(eventType, handler);
-    return this;
+  private static unlisten(element: HTMLElement, listener: CrabJsListener): void {
+    listener.bindings.forEach(binding => element.removeEventListener(binding.type, binding.listener, binding.options));
+    const listeners = CrabJsElementCollection.listeners.get(element);
+    if (listeners) {
+      const remaining = listeners.filter(item => item !== listener);
+      remaining.length ? CrabJsElementCollection.listeners.set(element, remaining) : CrabJsElementCollection.listeners.delete(element);
+    }
   }
 
   /**
-   * Method to append an element
-   * @param html - The HTML string to append
-   * @returns The current instance for chaining
+   * Native event classes by event type
    */
-  public append(html: string): CrabJsElementCollection {
-    try {
-      this.each((element) => {
-        element.insertAdjacentHTML('beforeend', html);
-      });
-    } catch (error) {
-      console.error('Error appending HTML:', error);
+  private static nativeEvents: Record<string, string> = {
+    click: 'MouseEvent', dblclick: 'MouseEvent', mousedown: 'MouseEvent', mouseup: 'MouseEvent', mousemove: 'MouseEvent',
+    mouseover: 'MouseEvent', mouseout: 'MouseEvent', mouseenter: 'MouseEvent', mouseleave: 'MouseEvent', contextmenu: 'MouseEvent',
+    keydown: 'KeyboardEvent', keyup: 'KeyboardEvent', keypress: 'KeyboardEvent',
+    focus: 'FocusEvent', blur: 'FocusEvent', focusin: 'FocusEvent', focusout: 'FocusEvent',
+    input: 'InputEvent', beforeinput: 'InputEvent', wheel: 'WheelEvent',
+    pointerdown: 'PointerEvent', pointerup: 'PointerEvent', pointermove: 'PointerEvent', pointerover: 'PointerEvent',
+    pointerout: 'PointerEvent', pointerenter: 'PointerEvent', pointerleave: 'PointerEvent', pointercancel: 'PointerEvent',
+    change: 'Event', submit: 'SubmitEvent', reset: 'Event', select: 'Event', scroll: 'Event', load: 'Event'
+  };
+
+  /**
+   * Native events that don't bubble or can't be cancelled unless told otherwise
+   */
+  private static nonBubbling = new Set(['blur', 'focus', 'load', 'mouseenter', 'mouseleave', 'pointerenter', 'pointerleave', 'scroll']);
+  private static nonCancelable = new Set(['blur', 'change', 'focus', 'focusin', 'focusout', 'input', 'load', 'mouseenter',
+    'mouseleave', 'pointerenter', 'pointerleave', 'reset', 'scroll', 'select']);
+
+  /**
+   * Creates an event for trigger(): the native event class for known DOM events, otherwise a CustomEvent
+   */
+  private static createEvent(type: string, detail: unknown, options: CrabJsTriggerOptions): Event {
+    const native = CrabJsElementCollection.nativeEvents[type];
+    const init = {
+      bubbles: options.bubbles !== undefined ? options.bubbles : !native || !CrabJsElementCollection.nonBubbling.has(type),
+      cancelable: options.cancelable !== undefined ? options.cancelable : !native || !CrabJsElementCollection.nonCancelable.has(type),
+      composed: !!options.composed
+    };
+    if (native) {
+      // Fall back to Event where the browser lacks the class, such as older browsers without InputEvent
+      const EventClass = (window as unknown as Record<string, typeof Event>)[native] || Event;
+      const properties = detail && typeof detail === 'object' ? detail as Record<string, unknown> : {};
+      return new EventClass(type, { ...properties, ...init });
     }
-    return this;
+    return new CustomEvent(type, { ...init, detail });
   }
 
   /**
-   * Method to remove elements
+   * Splits event types such as 'click.menu keydown' into types and namespaces
    */
-  public remove(): void {
-    try {
-      this.each((element) => {
-        element.parentNode?.removeChild(element);
-      });
-    } catch (error) {
-      console.error('Error removing elements:', error);
-    }
+  private static parseEvents(eventType: string): { type: string; namespaces: string[] }[] {
+    return eventType.split(/\s+/).filter(Boolean).map(event => {
+      const [type, ...namespaces] = event.split('.');
+      return { type, namespaces: namespaces.filter(Boolean) };
+    });
   }
 
   /**
@@ -802,7 +7125,7 @@ interface Options {
   }
 
   /**
-   * Gets or sets the HTML content of elements in the collection
+   * Gets or sets the HTML content of elements in the collection. HTML that is set is sanitized with CrabJsSanitizer.default
    * @param content - Optional HTML content to set. If not provided, returns the HTML content of the first element
    * @returns The HTML content of the first element or the current instance for chaining
    */
@@ -812,7 +7135,24 @@ interface Options {
     }
     try {
       this.each((element) => {
-        element.innerHTML = content;
+        element.textContent = '';
+        element.appendChild(CrabJsSanitizer.default.parse(content));
+      });
+    } catch (error) {
+      console.error('Error setting HTML content:', error);
+    }
+    return this;
+  }
+
+  /**
+   * Sets the HTML content of elements in the collection without sanitizing it. Only use it with trusted HTML
+   * @param content - The HTML content
+   * @returns The current instance for chaining
+   */
+  public unsafeHtml(content: string): CrabJsElementCollection {
+    try {
+      this.each((element) => {
+        CrabJsSanitizer.unsafeInnerHtml(element, content);
       });
     } catch (error) {
       console.error('Error setting HTML content:', error);
@@ -820,6 +7160,111 @@ interface Options {
     return this;
   }
 
+  /**
+   * Gets the combined text content of the elements, or sets the text content of each element.
+   * Text that is set is never parsed as HTML
+   * @param content - The text to set
+   * @returns The text of the elements or the current instance for chaining
+   */
+  public text(): string;
+  public text(content: string | number): CrabJsElementCollection;
+  public text(content?: string | number): string | CrabJsElementCollection {
+    if (content === undefined) {
+      return this.elements.map(element => element.textContent || '').join('');
+    }
+    this.each((element) => {
+      element.textContent = String(content);
+    });
+    return this;
+  }
+
+  /**
+   * Replaces the content of the elements with HTML fetched from a URL. The HTML is sanitized, scripts in the
+   * response are not run, and a newer load of the same element cancels an older one
+   * @param url - The URL to fetch
+   * @param options - Fragment selection, lifecycle hooks and request options
+   * @returns A promise resolving with the collection once the content is replaced, or once a newer load takes over
+   */
+  public load(url: string, options: CrabJsLoadOptions = {}): Promise<CrabJsElementCollection> {
+    const { selector, client, sanitizer, unsafeHtml, loadingClass = 'crabjs-loading', errorClass = 'crabjs-error', beforeLoad, beforeSwap, afterSwap, onError, ...requestOptions } = options;
+    const elements = this.elements.slice();
+    if (beforeLoad && beforeLoad(elements) === false) {
+      return Promise.resolve(this);
+    }
+
+    const controller = new AbortController();
+    const external = requestOptions.signal;
+    const abort = () => controller.abort();
+    if (external) {
+      external.aborted ? controller.abort() : external.addEventListener('abort', abort, { once: true });
+    }
+    elements.forEach(element => {
+      const previous = CrabJsElementCollection.loads.get(element);
+      previous && previous.abort();
+      CrabJsElementCollection.loads.set(element, controller);
+      element.classList.remove(errorClass);
+      element.classList.add(loadingClass);
+      element.setAttribute('aria-busy', 'true');
+    });
+
+    // Only elements whose latest load is this one are updated
+    const current = () => elements.filter(element => CrabJsElementCollection.loads.get(element) === controller);
+    const finish = () => current().forEach(element => {
+      CrabJsElementCollection.loads.delete(element);
+      element.classList.remove(loadingClass);
+      element.removeAttribute('aria-busy');
+    });
+
+    const request: Options = { ...requestOptions, url, method: options.method || 'GET', responseType: 'text', signal: controller.signal };
+    const sent = client ? client.request<string>(request) : CrabJsAjax.ajax<string>(request);
+    // The caller's signal may outlive this load, so its listener is removed once the request settles
+    const detach = () => external && external.removeEventListener('abort', abort);
+    sent.then(detach, detach);
+    const promise = sent.then(
+      response => {
+        const source = CrabJsSanitizer.parseDocument(String(response.data || ''));
+        if (unsafeHtml) {
+          source.querySelectorAll('script').forEach(script => script.remove());
+        } else {
+          (sanitizer || CrabJsSanitizer.default).clean(source.body);
+        }
+        const nodes: Node[] = selector ? Array.from(source.querySelectorAll(selector)) : Array.from(source.body.childNodes);
+
+        const targets = current();
+        finish();
+        targets.forEach(element => {
+          const fragment = document.createDocumentFragment();
+          nodes.forEach(node => fragment.appendChild(document.importNode(node, true)));
+          beforeSwap && beforeSwap(fragment, element);
+          element.textContent = '';
+          element.appendChild(fragment);
+          afterSwap && afterSwap(element);
+        });
+        return this;
+      },
+      (error: CrabJsHttpError) => {
+        // Elements taken over by a newer load are left to it; cancelled loads are not failures
+        const targets = current();
+        finish();
+        // A load replaced by a newer one isn't a failure: the newer load reports its own outcome
+        if (error.code === 'abort' && !(external && external.aborted)) {
+          return this;
+        }
+        if (targets.length && error.code !== 'abort') {
+          targets.forEach(element => element.classList.add(errorClass));
+          onError && onError(error, targets);
+        }
+        throw error;
+      }
+    );
+
+    // Callers handling errors through onError may ignore the promise
+    if (onError) {
+      promise.catch(() => undefined);
+    }
+    return promise;
+  }
+
   /**
    * Validates if a string is a valid email address
    * @param email - The string to validate as email
@@ -990,6 +7435,215 @@ public static isValidFile(file: File, allowedTypes: string[], maxSizeKB: number,
     return input.files;
   }
 
+  /**
+   * Encodes the fields of the forms and controls in the collection as a query string. Files are left out
+   * @returns The URL-encoded fields
+   */
+  public serialize(): string {
+    return CrabJsElementCollection.serializeEntries(this.formEntries(false));
+  }
+
+  /**
+   * Collects the fields of the forms and controls in the collection into an object.
+   * Bracketed names nest (a[b][c]), empty brackets append to arrays (a[]), and repeated names become arrays
+   * @returns The field values, with File objects for file inputs
+   */
+  public serializeObject(): Record<string, unknown> {
+    return CrabJsElementCollection.entriesToObject(this.formEntries(true));
+  }
+
+  /**
+   * Collects the fields of the forms and controls in the collection, including files, into a FormData
+   * @returns The form data
+   */
+  public toFormData(): FormData {
+    const formData = new FormData();
+    this.formEntries(true).forEach(([name, value]) => formData.append(name, value));
+    return formData;
+  }
+
+  /**
+   * Submits the forms in the collection through CrabJs.ajax instead of navigating.
+   * A form is not submitted again while its previous submission is pending. Calling it again replaces
+   * the earlier options, and off('.ajaxSubmit') goes back to native submission
+   * @param options - Submission and request options
+   * @returns The current instance for chaining
+   */
+  public ajaxSubmit(options: CrabJsAjaxSubmitOptions = {}): CrabJsElementCollection {
+    this.each((element) => {
+      if (!(element instanceof HTMLFormElement)) return;
+      let pending = false;
+
+      new CrabJsElementCollection([element]).off('submit.ajaxSubmit');
+      CrabJsElementCollection.listen(element, 'submit.ajaxSubmit', (event: Event) => {
+        event.preventDefault();
+        if (pending) return;
+
+        const form = element;
+        const submitter = (event as SubmitEvent).submitter || null;
+        const entries = new CrabJsElementCollection([form]).formEntries(true, submitter);
+        const { url, method, encoding, client, beforeSubmit, onSubmit, ...requestOptions } = options;
+        if (beforeSubmit && beforeSubmit(form, entries) === false) return;
+
+        const action = url || (submitter && submitter.getAttribute('formaction')) || form.getAttribute('action') || location.href;
+        const verb = (method || (submitter && submitter.getAttribute('formmethod')) || form.getAttribute('method') || 'GET').toUpperCase();
+        const hasFiles = entries.some(([, value]) => typeof File !== 'undefined' && value instanceof File);
+        // Files can't be encoded as JSON, so forms with files are sent as multipart instead
+        const format = encoding && !(encoding === 'json' && hasFiles) ? encoding : (hasFiles || (form.getAttribute('enctype') || '').toLowerCase() === 'multipart/form-data' ? 'multipart' : 'urlencoded');
+
+        const request: Options = { ...requestOptions, url: action, method: verb };
+        if (verb === 'GET' || verb === 'HEAD') {
+          const query = CrabJsElementCollection.serializeEntries(entries);
+          const hashIndex = action.indexOf('#');
+          const base = hashIndex === -1 ? action : action.slice(0, hashIndex);
+          // Like a native GET submission, the fields replace the action's query string
+          request.url = query ? `${base.split('?')[0]}?${query}` : base.split('?')[0];
+        } else if (format === 'json') {
+          request.data = CrabJsElementCollection.entriesToObject(entries);
+          request.contentType = 'application/json';
+        } else if (format === 'multipart') {
+          const formData = new FormData();
+          entries.forEach(([name, value]) => formData.append(name, value));
+          request.data = formData;
+        } else {
+          request.data = new URLSearchParams(entries.filter(([, value]) => typeof value === 'string') as string[][]);
+        }
+
+        pending = true;
+        const promise = client ? client.request(request) : CrabJsAjax.ajax(request);
+        promise.then(() => { pending = false; }, () => { pending = false; });
+        if (onSubmit) {
+          onSubmit(promise, form);
+        } else if (!requestOptions.error) {
+          promise.catch(error => console.error('Error submitting form:', error));
+        }
+      }, { passive: false });
+    });
+    return this;
+  }
+
+  /**
+   * Collects the successful controls of the forms and controls in the collection, the way a browser submits them
+   * @param includeFiles - Whether file inputs contribute their files
+   * @param submitter - The button that submitted the form, if any
+   * @returns The field names and values in document order
+   */
+  private formEntries(includeFiles: boolean, submitter: HTMLElement | null = null): CrabJsFormEntry[] {
+    const controls: Element[] = [];
+    this.elements.forEach(element => {
+      const found = element instanceof HTMLFormElement ? Array.from(element.elements)
+        : element.matches('input, select, textarea, button') ? [element]
+        : Array.from(element.querySelectorAll('input, select, textarea, button'));
+      found.forEach(control => controls.indexOf(control) === -1 && controls.push(control));
+    });
+
+    const entries: CrabJsFormEntry[] = [];
+    controls.forEach(control => {
+      const field = control as HTMLInputElement;
+      const name = field.name;
+      if (!name || field.disabled || control.matches(':disabled')) return;
+
+      if (control instanceof HTMLSelectElement) {
+        Array.from(control.options)
+          .filter(option => option.selected && !option.disabled)
+          .forEach(option => entries.push([name, option.value]));
+        return;
+      }
+      if (control instanceof HTMLButtonElement || ['submit', 'image', 'button', 'reset'].indexOf(field.type) !== -1) {
+        // Only the button that submitted the form is sent
+        if (control === submitter && field.type !== 'reset' && field.type !== 'button') {
+          entries.push([name, field.value]);
+        }
+        return;
+      }
+      if ((field.type === 'checkbox' || field.type === 'radio') && !field.checked) return;
+      if (field.type === 'file') {
+        includeFiles && field.files && Array.from(field.files).forEach(file => entries.push([name, file]));
+        return;
+      }
+      entries.push([name, field.value]);
+    });
+    return entries;
+  }
+
+  /**
+   * Encodes form entries as a query string, leaving files out
+   * @param entries - The form entries
+   * @returns The URL-encoded fields
+   */
+  private static serializeEntries(entries: CrabJsFormEntry[]): string {
+    const encodeName = (name: string) => encodeURIComponent(name).replace(/%5B/gi, '[').replace(/%5D/gi, ']');
+    return entries
+      .filter(([, value]) => typeof value === 'string')
+      .map(([name, value]) => `${encodeName(name)}=${encodeURIComponent(value as string)}`)
+      .join('&');
+  }
+
+  /**
+   * Builds an object from form entries, nesting bracketed names
+   * @param entries - The form entries
+   * @returns The field values
+   */
+  private static entriesToObject(entries: CrabJsFormEntry[]): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    entries.forEach(([name, value]) => {
+      const match = /^([^[\]]+)((?:\[[^[\]]*\])*)$/.exec(name);
+      if (!match) {
+        CrabJsElementCollection.unsafeKeys.has(name) || CrabJsElementCollection.addValue(result, name, value);
+        return;
+      }
+      const keys = [match[1]].concat((match[2].match(/\[[^[\]]*\]/g) || []).map(part => part.slice(1, -1)));
+      // Names such as __proto__[x] would otherwise write to Object.prototype
+      if (keys.some(key => CrabJsElementCollection.unsafeKeys.has(key))) return;
+      let target: Record<string, unknown> | unknown[] = result;
+      keys.forEach((key, index) => {
+        const last = index === keys.length - 1;
+        const nextIsIndex = !last && (keys[index + 1] === '' || /^\d+$/.test(keys[index + 1]));
+        if (key === '') {
+          const list = target as unknown[];
+          if (last) {
+            list.push(value);
+          } else {
+            const item = nextIsIndex ? [] : {};
+            list.push(item);
+            target = item;
+          }
+          return;
+        }
+        if (last) {
+          Array.isArray(target) ? (target[Number(key)] = value) : CrabJsElementCollection.addValue(target, key, value);
+          return;
+        }
+        const fields = target as Record<string, unknown>;
+        const current = fields[key];
+        if (!Object.prototype.hasOwnProperty.call(fields, key) || current === null || typeof current !== 'object' || current instanceof File) {
+          fields[key] = nextIsIndex ? [] : {};
+        }
+        target = fields[key] as Record<string, unknown> | unknown[];
+      });
+    });
+    return result;
+  }
+
+  /**
+   * Field name segments serializeObject() skips, since assigning them changes prototypes
+   */
+  private static unsafeKeys = new Set(['__proto__', 'constructor', 'prototype']);
+
+  /**
+   * Sets a property, turning it into an array when the name repeats
+   */
+  private static addValue(target: Record<string, unknown>, key: string, value: unknown): void {
+    const current = target[key];
+    if (!Object.prototype.hasOwnProperty.call(target, key)) {
+      target[key] = value;
+    } else if (Array.isArray(current)) {
+      current.push(value);
+    } else {
+      target[key] = [target[key], value];
+    }
+  }
+
 }
 /**
  * Class to handle animations for a collection of elements
@@ -1199,16 +7853,139 @@ class CrabJsElementCollectionAnimation implements CrabJsAnimation {
 
  class CrabJs {
   /**
-   * Performs an AJAX request using the CrabJsAjax class
-   * @param options - The options for the AJAX request
-   * 
+   * Performs an AJAX request using the CrabJsAjax class.
+   * CrabJs.ajax.create(defaults) creates an independent client
+   */
+  public static ajax: CrabJsAjaxFunction = Object.assign(
+    <T = unknown>(options: Options): Promise<CrabJsResponse<T>> => CrabJsAjax.ajax<T>(options),
+    { create: (defaults?: CrabJsAjaxDefaults): CrabJsAjax => CrabJsAjax.create(defaults) }
+  );
+
+  /**
+   * Opens a Server-Sent Events stream, sharing the base URL and headers of an AJAX client
+   * @param url - The stream URL
+   * @param options - The stream options
+   * @returns The event stream
+   */
+  public static stream<E = Record<string, unknown>>(url: string, options?: CrabJsStreamOptions): CrabJsEventStream<E> {
+    return new CrabJsEventStream<E>(url, options);
+  }
+
+  /**
+   * Opens a WebSocket connection with reconnection, heartbeats and message channels
+   * @param url - The socket URL; page-relative and http(s) URLs are converted to ws(s)
+   * @param options - The socket options
+   * @returns The socket client
+   */
+  public static socket<E = Record<string, unknown>>(url: string, options?: CrabJsSocketOptions): CrabJsSocket<E> {
+    return new CrabJsSocket<E>(url, options);
+  }
+
+  /**
+   * Creates a GraphQL client for an endpoint
+   * @param endpoint - The GraphQL endpoint URL, resolved like any AJAX URL
+   * @param options - The client options
+   * @returns The GraphQL client
+   */
+  public static graphql(endpoint: string, options?: CrabJsGraphQLOptions): CrabJsGraphQLClient {
+    return new CrabJsGraphQLClient(endpoint, options);
+  }
+
+  /**
+   * Creates an uploader sending files in resumable chunks. Call start() to begin
+   * @param files - The files to upload
+   * @param options - The uploader options
+   * @returns The uploader
+   */
+  public static upload(files: File | File[] | FileList, options: CrabJsUploadOptions): CrabJsUploader {
+    return new CrabJsUploader(files, options);
+  }
+
+  /**
+   * Installs token and CSRF handling on a client's interceptors, or the global ones
+   * @param options - The auth options
+   * @returns The auth manager
+   */
+  public static auth(options?: CrabJsAuthOptions): CrabJsAuth {
+    return new CrabJsAuth(options);
+  }
+
+  /**
+   * Interceptors applied to every AJAX request
+   */
+  public static get interceptors(): CrabJsInterceptors {
+    return CrabJsAjax.interceptors;
+  }
+
+  /**
+   * The AJAX response cache, used to invalidate cached responses
+   */
+  public static get cache(): CrabJsHttpCache {
+    return CrabJsAjax.cache;
+  }
+
+  /**
+   * The queue of requests waiting to be replayed once back online
+   */
+  public static get offline(): CrabJsOfflineQueue {
+    return CrabJsAjax.offline;
+  }
+
+  /**
+   * Performs a GET request using the CrabJsAjax class
+   * @param url - The URL to send the request to
+   * @param options - Additional request options
+   * @returns A promise resolving with the response
+   */
+  public static get<T = unknown>(url: string, options?: CrabJsRequestOptions): Promise<CrabJsResponse<T>> {
+    return CrabJsAjax.get<T>(url, options);
+  }
+
+  /**
+   * Performs a DELETE request using the CrabJsAjax class
+   * @param url - The URL to send the request to
+   * @param options - Additional request options
+   * @returns A promise resolving with the response
+   */
+  public static delete<T = unknown>(url: string, options?: CrabJsRequestOptions): Promise<CrabJsResponse<T>> {
+    return CrabJsAjax.delete<T>(url, options);
+  }
+
+  /**
+   * Performs a POST request using the CrabJsAjax class
+   * @param url - The URL to send the request to
+   * @param data - The request body
+   * @param options - Additional request options
+   * @returns A promise resolving with the response
+   */
+  public static post<T = unknown>(url: string, data?: unknown, options?: CrabJsRequestOptions): Promise<CrabJsResponse<T>> {
+    return CrabJsAjax.post<T>(url, data, options);
+  }
+
+  /**
+   * Performs a PUT request using the CrabJsAjax class
+   * @param url - The URL to send the request to
+   * @param data - The request body
+   * @param options - Additional request options
+   * @returns A promise resolving with the response
+   */
+  public static put<T = unknown>(url: string, data?: unknown, options?: CrabJsRequestOptions): Promise<CrabJsResponse<T>> {
+    return CrabJsAjax.put<T>(url, data, options);
+  }
+
+  /**
+   * Performs a PATCH request using the CrabJsAjax class
+   * @param url - The URL to send the request to
+   * @param data - The request body
+   * @param options - Additional request options
+   * @returns A promise resolving with the response
    */
-  public static ajax(options: Options) {
-    return CrabJsAjax.ajax(options);
+  public static patch<T = unknown>(url: string, data?: unknown, options?: CrabJsRequestOptions): Promise<CrabJsResponse<T>> {
+    return CrabJsAjax.patch<T>(url, data, options);
   }
   private constructor(){}
 
-  public static init(selector:string){
+  public static init(selector:string): CrabJsElementCollection {
     return new CrabJs().init(selector);
   }
 
@@ -1397,7 +8174,23 @@ const f$ = (selector: string) => CrabJs.init(selector);
 
 
 // Export for module usage
-export { f$ };
+export {
+  f$,
+  CrabJs,
+  CrabJsAjax,
+  CrabJsXhrAdapter,
+  CrabJsFetchAdapter,
+  CrabJsMockAdapter,
+  CrabJsHttpError,
+  CrabJsNetworkError,
+  CrabJsTimeoutError,
+  CrabJsAbortError,
+  CrabJsParseError,
+  CrabJsHttpStatusError,
+  CrabJsConfigError,
+  CrabJsGraphQLError,
+  CrabJsSanitizer
+};
 
 // Add to window object
 //@ts-ignore